@@ -1,16 +1,33 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import LiveCamera from "./pages/LiveCamera";
 import PhotoAnalyze from "./pages/PhotoAnalyze";
 import VideoAnalyze from "./pages/VideoAnalyze";
+import AssessmentHistory from "./pages/AssessmentHistory";
+import CompareAssessments from "./pages/CompareAssessments";
+import AppSettings from "./pages/AppSettings";
+import AssetProgressBar from "./components/AssetProgressBar";
+import { ensureOfflineAssets, type AssetProgress } from "./lib/offlineAssets";
 
-type Tab = "LIVE" | "PHOTO" | "VIDEO";
+type Tab = "LIVE" | "PHOTO" | "VIDEO" | "HISTORY" | "COMPARE" | "SETTINGS";
 
 export default function App() {
   const [tab, setTab] = useState<Tab>("LIVE");
+  const [offlineProgress, setOfflineProgress] = useState<AssetProgress | null>(null);
+  const [offlineErr, setOfflineErr] = useState<string | null>(null);
+
+  // First run: cache the WASM runtime and selected model so the app works offline
+  useEffect(() => {
+    ensureOfflineAssets(undefined, setOfflineProgress)
+      .catch((e: any) => setOfflineErr(e?.message ?? String(e)))
+      .finally(() => setOfflineProgress(null));
+  }, []);
 
   const subtitle = useMemo(() => {
     if (tab === "LIVE") return "Real-time posture feedback (offline)";
     if (tab === "PHOTO") return "Upload a photo for posture issues + angles";
+    if (tab === "HISTORY") return "Saved assessments on this device (offline)";
+    if (tab === "COMPARE") return "Before/after comparison of two assessments";
+    if (tab === "SETTINGS") return "Rule profiles, alerts and app settings";
     return "Upload a video for timeline + summary (offline)";
   }, [tab]);
 
@@ -29,12 +46,34 @@ export default function App() {
           <button className={`tab ${tab==="LIVE" ? "tabActive":""}`} onClick={() => setTab("LIVE")}>Live</button>
           <button className={`tab ${tab==="PHOTO" ? "tabActive":""}`} onClick={() => setTab("PHOTO")}>Photo</button>
           <button className={`tab ${tab==="VIDEO" ? "tabActive":""}`} onClick={() => setTab("VIDEO")}>Video</button>
+          <button className={`tab ${tab==="HISTORY" ? "tabActive":""}`} onClick={() => setTab("HISTORY")}>History</button>
+          <button className={`tab ${tab==="COMPARE" ? "tabActive":""}`} onClick={() => setTab("COMPARE")}>Compare</button>
+          <button className={`tab ${tab==="SETTINGS" ? "tabActive":""}`} onClick={() => setTab("SETTINGS")}>Settings</button>
         </div>
       </div>
 
+      {offlineProgress || offlineErr ? (
+        <div className="panel">
+          {offlineProgress ? (
+            <>
+              <div className="hint">Downloading files for offline use (first run)…</div>
+              <AssetProgressBar progress={offlineProgress} />
+            </>
+          ) : null}
+          {offlineErr ? (
+            <div className="hint">
+              Offline files not saved: {offlineErr}. Retry under Settings → Offline files.
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
       {tab === "LIVE" && <LiveCamera />}
       {tab === "PHOTO" && <PhotoAnalyze />}
       {tab === "VIDEO" && <VideoAnalyze />}
+      {tab === "HISTORY" && <AssessmentHistory />}
+      {tab === "COMPARE" && <CompareAssessments />}
+      {tab === "SETTINGS" && <AppSettings />}
     </div>
   );
 }
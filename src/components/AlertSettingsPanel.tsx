@@ -0,0 +1,144 @@
+import React, { useState } from "react";
+import { RULE_IDS, type RuleId } from "../lib/ruleProfiles";
+import {
+  alertSettings,
+  playAlertSound,
+  saveAlertSettings,
+  type AlertChannel,
+  type AlertSettings,
+} from "../lib/alertEngine";
+import { requestNotificationPermission } from "../lib/notifications";
+
+const ISSUE_LABEL: Record<RuleId, string> = {
+  "neck-tilt": "Neck tilt",
+  "shoulder-slope": "Uneven shoulders",
+  reach: "Forward reach",
+  "left-knee": "Left knee flexion",
+  "right-knee": "Right knee flexion",
+};
+
+const CHANNEL_LABEL: Record<AlertChannel, string> = {
+  sound: "Sound",
+  notification: "Browser notification",
+  flash: "Screen flash",
+};
+
+// Live-mode alert settings: timing, delivery channels, quiet hours and per-issue toggles
+export default function AlertSettingsPanel() {
+  const [s, setS] = useState<AlertSettings>(alertSettings);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  function update(patch: Partial<AlertSettings>) {
+    const next = { ...s, ...patch };
+    saveAlertSettings(next);
+    setS(next);
+  }
+
+  async function setChannel(c: AlertChannel, on: boolean) {
+    if (c === "notification" && on) {
+      const permission = await requestNotificationPermission();
+      if (permission !== "granted") {
+        setMsg(
+          permission === "unsupported"
+            ? "This browser does not support notifications."
+            : "Notifications are blocked for this site."
+        );
+        return;
+      }
+    }
+    setMsg(null);
+    update({ channels: { ...s.channels, [c]: on } });
+  }
+
+  return (
+    <div className="panel inputsPanel">
+      <div className="panelSubTitle">Live posture alerts</div>
+
+      <div className="inputsChecks">
+        <label className="check">
+          <input type="checkbox" checked={s.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+          Alert when a HIGH issue persists
+        </label>
+      </div>
+
+      <div className="inputsGrid">
+        <label className="field">
+          <span className="label">Persists for (seconds)</span>
+          <input
+            className="input"
+            type="number"
+            min={1}
+            value={s.sustainSeconds}
+            onChange={(e) => update({ sustainSeconds: Math.max(1, Number(e.target.value) || 1) })}
+          />
+        </label>
+        <label className="field">
+          <span className="label">Repeat no sooner than (seconds)</span>
+          <input
+            className="input"
+            type="number"
+            min={0}
+            value={s.cooldownSeconds}
+            onChange={(e) => update({ cooldownSeconds: Math.max(0, Number(e.target.value) || 0) })}
+          />
+        </label>
+        <label className="field">
+          <span className="label">Quiet hours from</span>
+          <input
+            className="input"
+            type="time"
+            value={s.quietHours.start}
+            onChange={(e) => update({ quietHours: { ...s.quietHours, start: e.target.value } })}
+          />
+        </label>
+        <label className="field">
+          <span className="label">Quiet hours until</span>
+          <input
+            className="input"
+            type="time"
+            value={s.quietHours.end}
+            onChange={(e) => update({ quietHours: { ...s.quietHours, end: e.target.value } })}
+          />
+        </label>
+      </div>
+
+      <div className="inputsChecks">
+        <label className="check">
+          <input
+            type="checkbox"
+            checked={s.quietHours.enabled}
+            onChange={(e) => update({ quietHours: { ...s.quietHours, enabled: e.target.checked } })}
+          />
+          Use quiet hours
+        </label>
+        {(Object.keys(CHANNEL_LABEL) as AlertChannel[]).map((c) => (
+          <label className="check" key={c}>
+            <input type="checkbox" checked={s.channels[c]} onChange={(e) => setChannel(c, e.target.checked)} />
+            {CHANNEL_LABEL[c]}
+          </label>
+        ))}
+        <button className="btn" type="button" onClick={playAlertSound}>
+          Test sound
+        </button>
+      </div>
+      {msg ? <div className="hint">{msg}</div> : null}
+
+      <div className="panelSubTitle">Alert on</div>
+      <div className="inputsChecks">
+        {RULE_IDS.map((id) => (
+          <label className="check" key={id}>
+            <input
+              type="checkbox"
+              checked={s.issues[id]}
+              onChange={(e) => update({ issues: { ...s.issues, [id]: e.target.checked } })}
+            />
+            {ISSUE_LABEL[id]}
+          </label>
+        ))}
+      </div>
+      <div className="hint">
+        Alerts keep running while the app is in a background tab, as long as the camera stays on.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import React, { useState } from "react";
+import { alertSettings, clearAlertLog, inQuietHours, type AlertEngine, type AlertEvent } from "../lib/alertEngine";
+import { downloadBlob } from "../lib/exporters";
+
+const RECENT = 10;
+
+function downloadLog(log: AlertEvent[]) {
+  downloadBlob(JSON.stringify(log, null, 2), `ergofit-alerts-${Date.now()}.json`, "application/json");
+}
+
+// Snooze controls and the alert log for the live view; settings live on the Settings tab
+export default function AlertStatusPanel({
+  engine,
+  log,
+  onLogChange,
+}: {
+  engine: AlertEngine;
+  log: AlertEvent[];
+  onLogChange: () => void;
+}) {
+  const [snoozedUntil, setSnoozedUntil] = useState(engine.snoozedUntil);
+  const settings = alertSettings();
+  const now = performance.now();
+
+  function snooze(minutes: number) {
+    engine.snooze(minutes, performance.now());
+    setSnoozedUntil(engine.snoozedUntil());
+  }
+
+  function resume() {
+    engine.unsnooze();
+    setSnoozedUntil(engine.snoozedUntil());
+  }
+
+  const status = !settings.enabled
+    ? "Alerts off (enable them on the Settings tab)"
+    : snoozedUntil > now
+    ? `Snoozed until ${new Date(Date.now() + snoozedUntil - now).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+    : inQuietHours(settings)
+    ? `Quiet hours (${settings.quietHours.start}–${settings.quietHours.end})`
+    : `Active — alerts after ${settings.sustainSeconds}s of a HIGH issue`;
+
+  return (
+    <div className="panel inputsPanel">
+      <div className="panelSubTitle">Posture alerts</div>
+      <div className="hint">{status}</div>
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 10 }}>
+        <button className="btn" type="button" onClick={() => snooze(15)}>
+          Snooze 15 min
+        </button>
+        <button className="btn" type="button" onClick={() => snooze(60)}>
+          Snooze 1 h
+        </button>
+        <button className="btn" type="button" disabled={snoozedUntil <= now} onClick={resume}>
+          Resume
+        </button>
+        <button className="btn" type="button" disabled={!log.length} onClick={() => downloadLog(log)}>
+          Export log
+        </button>
+        <button
+          className="btn"
+          type="button"
+          disabled={!log.length}
+          onClick={() => {
+            if (!window.confirm("Clear the alert log?")) return;
+            clearAlertLog();
+            onLogChange();
+          }}
+        >
+          Clear log
+        </button>
+      </div>
+
+      {log.length ? (
+        <div style={{ marginTop: 10 }}>
+          {log
+            .slice(-RECENT)
+            .reverse()
+            .map((ev) => (
+              <div className="panelRow" key={`${ev.at}-${ev.issueId}`}>
+                <div className="label">{new Date(ev.at).toLocaleString()}</div>
+                <div className="value">
+                  {ev.title} ({ev.heldSec}s)
+                </div>
+              </div>
+            ))}
+          {log.length > RECENT ? <div className="hint">{log.length - RECENT} older alerts in the exported log.</div> : null}
+        </div>
+      ) : (
+        <div className="muted">No alerts yet</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import React from "react";
+import type { ReportOptions } from "../lib/poseMath";
+import type { RulaForceLoad } from "../lib/rula";
+import type { RebaCoupling, RebaInputs, RebaLoad } from "../lib/reba";
+import type { NioshCoupling, NioshDuration, NioshInputs } from "../lib/niosh";
+import type { BodyInputs } from "../lib/biomechanics";
+import { DEFAULT_MIN_VISIBILITY, type VisibilityOptions } from "../lib/geometry";
+import { VIEW_LABELS, type CameraView, type ViewSetting } from "../lib/cameraView";
+
+// Measurement settings plus the factors the camera cannot see (RULA / REBA / NIOSH)
+export default function AssessmentInputs({
+  value,
+  onChange,
+  showLifting = false,
+}: {
+  value: ReportOptions;
+  onChange: (next: ReportOptions) => void;
+  showLifting?: boolean;
+}) {
+  const rula = value.rula ?? {};
+  const reba = value.reba ?? {};
+  const setReba = (patch: Partial<RebaInputs>) => onChange({ ...value, reba: { ...reba, ...patch } });
+  const niosh = value.niosh ?? {};
+  const setNiosh = (patch: Partial<NioshInputs>) => onChange({ ...value, niosh: { ...niosh, ...patch } });
+  const body = value.body ?? {};
+  const setBody = (patch: Partial<BodyInputs>) => onChange({ ...value, body: { ...body, ...patch } });
+  const visibility = value.visibility ?? {};
+  const setVisibility = (patch: Partial<VisibilityOptions>) =>
+    onChange({ ...value, visibility: { ...visibility, ...patch } });
+
+  return (
+    <div className="panel inputsPanel">
+      <div className="panelSubTitle">Assessment inputs</div>
+
+      <div className="inputsGrid">
+        <label className="field">
+          <span className="label">Min. joint visibility</span>
+          <input
+            className="input"
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={visibility.threshold ?? DEFAULT_MIN_VISIBILITY}
+            onChange={(e) => setVisibility({ threshold: Number(e.target.value) })}
+          />
+        </label>
+
+        <label className="field">
+          <span className="label">Low-visibility joints</span>
+          <select
+            className="input"
+            value={visibility.mode ?? "drop"}
+            onChange={(e) => setVisibility({ mode: e.target.value as VisibilityOptions["mode"] })}
+          >
+            <option value="drop">Drop (skip measurement)</option>
+            <option value="flag">Keep and flag</option>
+          </select>
+        </label>
+
+        <label className="field">
+          <span className="label">Camera view</span>
+          <select
+            className="input"
+            value={value.view ?? "auto"}
+            onChange={(e) => onChange({ ...value, view: e.target.value as ViewSetting })}
+          >
+            <option value="auto">Auto-detect</option>
+            {(Object.keys(VIEW_LABELS) as CameraView[]).map((v) => (
+              <option key={v} value={v}>
+                {VIEW_LABELS[v]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="field">
+          <span className="label">RULA muscle use</span>
+          <select
+            className="input"
+            value={rula.muscleUse ? "1" : "0"}
+            onChange={(e) => onChange({ ...value, rula: { ...rula, muscleUse: e.target.value === "1" } })}
+          >
+            <option value="0">Dynamic / occasional</option>
+            <option value="1">Static &gt; 1 min or repeated &gt; 4x/min</option>
+          </select>
+        </label>
+
+        <label className="field">
+          <span className="label">RULA force / load</span>
+          <select
+            className="input"
+            value={String(rula.forceLoad ?? 0)}
+            onChange={(e) =>
+              onChange({ ...value, rula: { ...rula, forceLoad: Number(e.target.value) as RulaForceLoad } })
+            }
+          >
+            <option value="0">&lt; 2 kg intermittent</option>
+            <option value="1">2–10 kg intermittent</option>
+            <option value="2">2–10 kg static or repeated</option>
+            <option value="3">&gt; 10 kg or shock</option>
+          </select>
+        </label>
+
+        <label className="field">
+          <span className="label">REBA load</span>
+          <select
+            className="input"
+            value={String(reba.load ?? 0)}
+            onChange={(e) => setReba({ load: Number(e.target.value) as RebaLoad })}
+          >
+            <option value="0">&lt; 5 kg</option>
+            <option value="1">5–10 kg</option>
+            <option value="2">&gt; 10 kg</option>
+          </select>
+        </label>
+
+        <label className="field">
+          <span className="label">REBA coupling</span>
+          <select
+            className="input"
+            value={String(reba.coupling ?? 0)}
+            onChange={(e) => setReba({ coupling: Number(e.target.value) as RebaCoupling })}
+          >
+            <option value="0">Good (well-fitting handle)</option>
+            <option value="1">Fair (acceptable hold)</option>
+            <option value="2">Poor (not acceptable)</option>
+            <option value="3">Unacceptable (unsafe grip)</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="inputsChecks">
+        <label className="check">
+          <input type="checkbox" checked={!!reba.shock} onChange={(e) => setReba({ shock: e.target.checked })} />
+          Shock / rapid force
+        </label>
+        <label className="check">
+          <input
+            type="checkbox"
+            checked={!!reba.staticHold}
+            onChange={(e) => setReba({ staticHold: e.target.checked })}
+          />
+          Held &gt; 1 min
+        </label>
+        <label className="check">
+          <input type="checkbox" checked={!!reba.repeated} onChange={(e) => setReba({ repeated: e.target.checked })} />
+          Repeated &gt; 4x/min
+        </label>
+        <label className="check">
+          <input
+            type="checkbox"
+            checked={!!reba.rapidChange}
+            onChange={(e) => setReba({ rapidChange: e.target.checked })}
+          />
+          Rapid posture changes
+        </label>
+      </div>
+
+      <div className="panelSubTitle">Worker and load (biomechanical model)</div>
+      <div className="inputsGrid">
+        <label className="field">
+          <span className="label">Body mass (kg)</span>
+          <input
+            className="input"
+            type="number"
+            min={30}
+            max={200}
+            placeholder="From calibration or 75"
+            value={body.bodyMassKg ?? ""}
+            onChange={(e) => setBody({ bodyMassKg: Number(e.target.value) || undefined })}
+          />
+        </label>
+
+        <label className="field">
+          <span className="label">Worker height (cm)</span>
+          <input
+            className="input"
+            type="number"
+            min={120}
+            max={220}
+            placeholder="From calibration"
+            value={body.statureCm ?? ""}
+            onChange={(e) => setBody({ statureCm: Number(e.target.value) || undefined })}
+          />
+        </label>
+
+        <label className="field">
+          <span className="label">Load in hands (kg)</span>
+          <input
+            className="input"
+            type="number"
+            min={0}
+            step={0.5}
+            value={body.handLoadKg ?? 0}
+            onChange={(e) => setBody({ handLoadKg: Number(e.target.value) || 0 })}
+          />
+        </label>
+      </div>
+
+      {showLifting ? (
+        <>
+          <div className="panelSubTitle">NIOSH lifting task</div>
+          <div className="inputsGrid">
+            <label className="field">
+              <span className="label">Load weight (kg)</span>
+              <input
+                className="input"
+                type="number"
+                min={0}
+                step={0.5}
+                value={niosh.loadKg ?? 0}
+                onChange={(e) => setNiosh({ loadKg: Number(e.target.value) || 0 })}
+              />
+            </label>
+
+            <label className="field">
+              <span className="label">Frequency (lifts/min)</span>
+              <input
+                className="input"
+                type="number"
+                min={0.2}
+                max={15}
+                step={0.1}
+                value={niosh.frequency ?? 1}
+                onChange={(e) => setNiosh({ frequency: Number(e.target.value) || 0.2 })}
+              />
+            </label>
+
+            <label className="field">
+              <span className="label">Lifting duration</span>
+              <select
+                className="input"
+                value={String(niosh.durationHours ?? 1)}
+                onChange={(e) => setNiosh({ durationHours: Number(e.target.value) as NioshDuration })}
+              >
+                <option value="1">≤ 1 hour</option>
+                <option value="2">1–2 hours</option>
+                <option value="8">2–8 hours</option>
+              </select>
+            </label>
+
+            <label className="field">
+              <span className="label">Hand-to-object coupling</span>
+              <select
+                className="input"
+                value={niosh.coupling ?? "Fair"}
+                onChange={(e) => setNiosh({ coupling: e.target.value as NioshCoupling })}
+              >
+                <option value="Good">Good</option>
+                <option value="Fair">Fair</option>
+                <option value="Poor">Poor</option>
+              </select>
+            </label>
+
+            <label className="field">
+              <span className="label">Worker height (cm)</span>
+              <input
+                className="input"
+                type="number"
+                min={120}
+                max={220}
+                value={niosh.statureCm ?? 170}
+                onChange={(e) => setNiosh({ statureCm: Number(e.target.value) || 170 })}
+              />
+            </label>
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
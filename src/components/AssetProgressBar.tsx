@@ -0,0 +1,24 @@
+import React from "react";
+import type { AssetProgress } from "../lib/offlineAssets";
+
+export function fmtBytes(n: number) {
+  if (n >= 1024 * 1024 * 1024) return `${(n / 1024 / 1024 / 1024).toFixed(1)} GB`;
+  if (n >= 1024 * 1024) return `${(n / 1024 / 1024).toFixed(1)} MB`;
+  return `${Math.round(n / 1024)} KB`;
+}
+
+// Download progress of one offline file (runtime or model)
+export default function AssetProgressBar({ progress }: { progress: AssetProgress }) {
+  return (
+    <div className="progress">
+      <div
+        className="progressBar"
+        style={{ width: progress.total ? `${(progress.loaded / progress.total) * 100}%` : "100%" }}
+      />
+      <div className="progressLabel">
+        {progress.path} — {fmtBytes(progress.loaded)}
+        {progress.total ? ` / ${fmtBytes(progress.total)}` : ""}
+      </div>
+    </div>
+  );
+}
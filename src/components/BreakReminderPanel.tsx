@@ -0,0 +1,97 @@
+import React from "react";
+import { breakSettings, type BreakScheduler, type BreakState } from "../lib/breakScheduler";
+
+function fmtMin(sec: number) {
+  return `${Math.floor(sec / 60)}m ${Math.round(sec % 60)}s`;
+}
+
+// Microbreak status for the live view: progress towards the next break, the prompt
+// with suggested stretches, and break verification
+export default function BreakReminderPanel({
+  scheduler,
+  state,
+  onChange,
+}: {
+  scheduler: BreakScheduler;
+  state: BreakState;
+  onChange: () => void;
+}) {
+  const settings = breakSettings();
+  const neckShoulderSec = state.issueSec.neck + state.issueSec.shoulders + state.issueSec.upperBack;
+  const now = performance.now();
+
+  return (
+    <div className="panel inputsPanel">
+      <div className="panelSubTitle">Microbreaks</div>
+
+      {!settings.enabled ? (
+        <div className="hint">Break reminders off (enable them on the Settings tab)</div>
+      ) : state.snoozedUntil > now && state.phase === "monitoring" ? (
+        <div className="hint">
+          Postponed until{" "}
+          {new Date(Date.now() + state.snoozedUntil - now).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+        </div>
+      ) : null}
+
+      <div className="panelRow">
+        <div className="label">Static posture</div>
+        <div className="value">
+          {fmtMin(state.staticSec)} / {settings.staticMinutes} min
+        </div>
+      </div>
+      <div className="panelRow">
+        <div className="label">Neck/shoulder strain</div>
+        <div className="value">
+          {fmtMin(neckShoulderSec)} / {settings.issueMinutes} min
+        </div>
+      </div>
+
+      {state.phase === "due" ? (
+        <div className="breakPrompt">
+          <strong>Time for a break</strong> — {state.reasons.join(", ")}
+          {state.stretches.map((s) => (
+            <div className="panelRow" key={s.id}>
+              <div className="label">{s.name}</div>
+              <div className="value">{s.how}</div>
+            </div>
+          ))}
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 10 }}>
+            <button
+              className="btn btnPrimary"
+              type="button"
+              onClick={() => {
+                scheduler.startBreak(performance.now());
+                onChange();
+              }}
+            >
+              Taking a break
+            </button>
+            <button
+              className="btn"
+              type="button"
+              onClick={() => {
+                scheduler.snooze(performance.now());
+                onChange();
+              }}
+            >
+              Remind me in {settings.snoozeMinutes} min
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {state.phase === "verifying" ? (
+        <div className="breakPrompt">
+          <strong>On a break</strong> — step away from the camera or change position.{" "}
+          {Math.round(state.breakProgressSec)} / {settings.breakSeconds}s
+          {state.stretches.map((s) => (
+            <div className="panelRow" key={s.id}>
+              <div className="label">{s.name}</div>
+              <div className="value">{s.how}</div>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import React, { useState } from "react";
+import { requestNotificationPermission } from "../lib/notifications";
+import { breakSettings, saveBreakSettings, type BreakSettings } from "../lib/breakScheduler";
+
+const NUMBER_FIELDS: { key: "staticMinutes" | "issueMinutes" | "breakSeconds" | "snoozeMinutes"; label: string; min: number }[] = [
+  { key: "staticMinutes", label: "Break after static posture (minutes)", min: 1 },
+  { key: "issueMinutes", label: "Break after neck/shoulder strain (minutes)", min: 1 },
+  { key: "breakSeconds", label: "Break counts after (seconds)", min: 5 },
+  { key: "snoozeMinutes", label: "Remind me later after (minutes)", min: 1 },
+];
+
+// Microbreak reminder settings for live mode
+export default function BreakSettingsPanel() {
+  const [s, setS] = useState<BreakSettings>(breakSettings);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  function update(patch: Partial<BreakSettings>) {
+    const next = { ...s, ...patch };
+    saveBreakSettings(next);
+    setS(next);
+  }
+
+  async function setNotify(on: boolean) {
+    if (on) {
+      const permission = await requestNotificationPermission();
+      setMsg(permission === "granted" ? null : "Notifications are unavailable; breaks will still sound and show in the live view.");
+    }
+    update({ notify: on });
+  }
+
+  return (
+    <div className="panel inputsPanel">
+      <div className="panelSubTitle">Microbreak reminders</div>
+
+      <div className="inputsChecks">
+        <label className="check">
+          <input type="checkbox" checked={s.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+          Remind me to take breaks in live mode
+        </label>
+        <label className="check">
+          <input type="checkbox" checked={s.notify} onChange={(e) => setNotify(e.target.checked)} />
+          Sound and notification
+        </label>
+      </div>
+
+      <div className="inputsGrid">
+        {NUMBER_FIELDS.map((f) => (
+          <label className="field" key={f.key}>
+            <span className="label">{f.label}</span>
+            <input
+              className="input"
+              type="number"
+              min={f.min}
+              value={s[f.key]}
+              onChange={(e) => update({ [f.key]: Math.max(f.min, Number(e.target.value) || f.min) })}
+            />
+          </label>
+        ))}
+      </div>
+      {msg ? <div className="hint">{msg}</div> : null}
+      <div className="hint">
+        A break is verified when you leave the camera or clearly change position for the set time. Stretches are
+        suggested for the regions flagged most often since the last break.
+      </div>
+    </div>
+  );
+}
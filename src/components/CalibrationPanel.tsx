@@ -0,0 +1,211 @@
+import type { PoseLandmarkerResult } from "@mediapipe/tasks-vision";
+import React, { useEffect, useState } from "react";
+import {
+  DEFAULT_BODY_MASS_KG,
+  activeStation,
+  calibrateFromHeight,
+  calibrateFromReference,
+  deleteCalibration,
+  listCalibrations,
+  saveCalibration,
+  setActiveStation,
+  type Calibration,
+} from "../lib/calibration";
+
+type Pt = { x: number; y: number };
+
+// Normalized frame coordinates of a click, accounting for object-fit letterboxing
+function pointOnCanvas(c: HTMLCanvasElement, e: MouseEvent): Pt | null {
+  const r = c.getBoundingClientRect();
+  if (!c.width || !c.height || !r.width || !r.height) return null;
+  const scale = Math.min(r.width / c.width, r.height / c.height);
+  const w = c.width * scale;
+  const h = c.height * scale;
+  const x = (e.clientX - r.left - (r.width - w) / 2) / w;
+  const y = (e.clientY - r.top - (r.height - h) / 2) / h;
+  return x >= 0 && x <= 1 && y >= 0 && y <= 1 ? { x, y } : null;
+}
+
+function describe(cal: Calibration) {
+  const how =
+    cal.method === "height"
+      ? `worker height ${cal.statureCm} cm`
+      : `reference ${cal.reference?.lengthCm ?? "?"} cm`;
+  return `${how} · frame height ≈ ${(cal.metersPerUnit * 100).toFixed(0)} cm · body mass ${
+    cal.bodyMassKg ?? DEFAULT_BODY_MASS_KG
+  } kg`;
+}
+
+// Per-station camera calibration: known worker height or two clicks on a known length
+export default function CalibrationPanel({
+  canvasRef,
+  getResult,
+  onChange,
+}: {
+  canvasRef: React.RefObject<HTMLCanvasElement | null>;
+  getResult: () => PoseLandmarkerResult | null;
+  onChange?: (cal: Calibration | null) => void;
+}) {
+  const [list, setList] = useState<Calibration[]>(listCalibrations);
+  const [active, setActive] = useState<string | null>(activeStation);
+  const [station, setStation] = useState(() => activeStation() ?? "");
+  const [statureCm, setStatureCm] = useState(170);
+  const [bodyMassKg, setBodyMassKg] = useState(DEFAULT_BODY_MASS_KG);
+  const [lengthCm, setLengthCm] = useState(100);
+  const [picking, setPicking] = useState<Pt[] | null>(null);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const current = list.find((c) => c.station === active) ?? null;
+
+  function activate(name: string | null) {
+    setActiveStation(name);
+    setActive(name);
+    onChange?.(listCalibrations().find((c) => c.station === name) ?? null);
+  }
+
+  function store(cal: Calibration | null, failure: string) {
+    if (!cal) return setMsg(failure);
+    saveCalibration(cal);
+    setList(listCalibrations());
+    activate(cal.station);
+    setMsg(`Calibrated "${cal.station}".`);
+  }
+
+  function fromHeight() {
+    const c = canvasRef.current;
+    const aspect = c && c.height ? c.width / c.height : 1;
+    store(
+      calibrateFromHeight(getResult(), station.trim(), statureCm, aspect, bodyMassKg),
+      "Need one person standing upright with head and feet in view."
+    );
+  }
+
+  function remove() {
+    if (!current || !window.confirm(`Delete calibration "${current.station}"?`)) return;
+    deleteCalibration(current.station);
+    setList(listCalibrations());
+    activate(null);
+  }
+
+  // Reference marking: the next two clicks on the frame are the ends of the known length
+  useEffect(() => {
+    const c = canvasRef.current;
+    if (!picking || !c) return;
+
+    const onClick = (e: MouseEvent) => {
+      const p = pointOnCanvas(c, e);
+      if (!p) return;
+      const pts = [...picking, p];
+      if (pts.length < 2) return setPicking(pts);
+
+      setPicking(null);
+      store(
+        calibrateFromReference(pts[0], pts[1], lengthCm, station.trim(), c.width / c.height, bodyMassKg),
+        "Reference points are too close together."
+      );
+    };
+
+    c.addEventListener("click", onClick);
+    c.style.cursor = "crosshair";
+    return () => {
+      c.removeEventListener("click", onClick);
+      c.style.cursor = "";
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [picking]);
+
+  const named = station.trim().length > 0;
+
+  return (
+    <div className="panel inputsPanel">
+      <div className="panelSubTitle">Camera calibration</div>
+
+      <div className="inputsGrid">
+        <label className="field">
+          <span className="label">Active station</span>
+          <select className="input" value={active ?? ""} onChange={(e) => activate(e.target.value || null)}>
+            <option value="">None (relative units)</option>
+            {list.map((c) => (
+              <option key={c.station} value={c.station}>
+                {c.station}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="field">
+          <span className="label">Station / camera name</span>
+          <input
+            className="input"
+            type="text"
+            placeholder="e.g. Packing line cam 2"
+            value={station}
+            onChange={(e) => setStation(e.target.value)}
+          />
+        </label>
+
+        <label className="field">
+          <span className="label">Worker height (cm)</span>
+          <input
+            className="input"
+            type="number"
+            min={100}
+            max={230}
+            value={statureCm}
+            onChange={(e) => setStatureCm(Number(e.target.value) || 170)}
+          />
+        </label>
+
+        <label className="field">
+          <span className="label">Body mass (kg)</span>
+          <input
+            className="input"
+            type="number"
+            min={30}
+            max={200}
+            value={bodyMassKg}
+            onChange={(e) => setBodyMassKg(Number(e.target.value) || DEFAULT_BODY_MASS_KG)}
+          />
+        </label>
+
+        <label className="field">
+          <span className="label">Reference length (cm)</span>
+          <input
+            className="input"
+            type="number"
+            min={1}
+            value={lengthCm}
+            onChange={(e) => setLengthCm(Number(e.target.value) || 0)}
+          />
+        </label>
+      </div>
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 10 }}>
+        <button className="btn" type="button" disabled={!named} onClick={fromHeight}>
+          Calibrate from height
+        </button>
+        <button
+          className="btn"
+          type="button"
+          disabled={!named || !(lengthCm > 0)}
+          onClick={() => setPicking(picking ? null : [])}
+        >
+          {picking ? "Cancel marking" : "Mark reference length"}
+        </button>
+        <button className="btn" type="button" disabled={!current} onClick={remove}>
+          Delete station
+        </button>
+      </div>
+
+      {picking ? (
+        <div className="hint">
+          {picking.length ? "Click the other end of the reference." : "Click one end of the reference on the frame."}
+        </div>
+      ) : null}
+      <div className="hint">
+        {current ? describe(current) : "Uncalibrated — reach and height offsets are reported relative to the frame."}
+      </div>
+      {msg ? <div className="hint">{msg}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import React from "react";
+import type { IssueChangeStatus, MetricDelta, ReportComparison } from "../lib/compareReports";
+
+export type CompareSide = {
+  label: string;               // e.g. file name or "Packing — 12/03/2025"
+  report: any;
+  imageUrl?: string | null;    // annotated frame
+};
+
+export type ComparisonReportProps = {
+  before: CompareSide;
+  after: CompareSide;
+  comparison: ReportComparison;
+  generatedAt: string;
+};
+
+const STATUS_LABEL: Record<IssueChangeStatus, string> = {
+  resolved: "Resolved",
+  new: "New",
+  improved: "Less severe",
+  worse: "More severe",
+  unchanged: "Unchanged",
+};
+
+// Which direction is an improvement, per metric (score up is good, everything else down)
+const HIGHER_IS_BETTER = new Set(["score"]);
+
+function fmt(v?: number, digits = 1) {
+  return v === undefined ? "—" : v.toFixed(digits);
+}
+
+function fmtDelta(d: MetricDelta, digits = 1) {
+  if (d.delta === undefined) return "—";
+  const sign = d.delta > 0 ? "+" : "";
+  return `${sign}${d.delta.toFixed(digits)}`;
+}
+
+function deltaClass(d: MetricDelta) {
+  if (d.delta === undefined || Math.abs(d.delta) < 1e-6) return "";
+  const better = HIGHER_IS_BETTER.has(d.key) ? d.delta > 0 : d.delta < 0;
+  return better ? "deltaGood" : "deltaBad";
+}
+
+function DeltaRow({ label, d, digits = 1 }: { label: string; d: MetricDelta; digits?: number }) {
+  return (
+    <tr>
+      <td>{label}</td>
+      <td>{fmt(d.before, digits)}</td>
+      <td>{fmt(d.after, digits)}</td>
+      <td className={deltaClass(d)}>{fmtDelta(d, digits)}</td>
+    </tr>
+  );
+}
+
+// Delta tables; shared by the Compare tab and the printable comparison
+export function ComparisonTables({ comparison: c }: { comparison: ReportComparison }) {
+  return (
+    <div className="compareTables">
+      <table className="compareTable">
+        <thead>
+          <tr>
+            <th>Summary</th>
+            <th>Before</th>
+            <th>After</th>
+            <th>Δ</th>
+          </tr>
+        </thead>
+        <tbody>
+          <DeltaRow label="ErgoScore" d={c.score} digits={0} />
+          <tr>
+            <td>Risk</td>
+            <td>{c.risk.before ?? "—"}</td>
+            <td>{c.risk.after ?? "—"}</td>
+            <td />
+          </tr>
+          <DeltaRow label="RULA" d={c.rula} digits={0} />
+          <DeltaRow label="REBA" d={c.reba} digits={0} />
+        </tbody>
+      </table>
+
+      <table className="compareTable">
+        <thead>
+          <tr>
+            <th>Posture issue</th>
+            <th>Before</th>
+            <th>After</th>
+            <th>Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {c.issues.length ? (
+            c.issues.map((i) => (
+              <tr key={i.id}>
+                <td>{i.title}</td>
+                <td>{i.before ?? "—"}</td>
+                <td>{i.after ?? "—"}</td>
+                <td className={`issue${i.status}`}>{STATUS_LABEL[i.status]}</td>
+              </tr>
+            ))
+          ) : (
+            <tr>
+              <td colSpan={4}>No issues in either assessment</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <table className="compareTable">
+        <thead>
+          <tr>
+            <th>Angle</th>
+            <th>Before</th>
+            <th>After</th>
+            <th>Δ</th>
+          </tr>
+        </thead>
+        <tbody>
+          {c.angles.map((d) => (
+            <DeltaRow key={d.key} label={d.key} d={d} />
+          ))}
+        </tbody>
+      </table>
+
+      <table className="compareTable">
+        <thead>
+          <tr>
+            <th>Lever / force</th>
+            <th>Before</th>
+            <th>After</th>
+            <th>Δ</th>
+          </tr>
+        </thead>
+        <tbody>
+          {c.lever.map((d) => (
+            <DeltaRow key={d.key} label={d.key} d={d} digits={2} />
+          ))}
+          <tr>
+            <td>strainLevel</td>
+            <td>{c.strainLevel.before ?? "—"}</td>
+            <td>{c.strainLevel.after ?? "—"}</td>
+            <td />
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Print-optimized before/after document; rendered to static HTML by printDocument.openPrintableComparison
+export default function ComparisonReport({ before, after, comparison, generatedAt }: ComparisonReportProps) {
+  return (
+    <div className="doc">
+      <header>
+        <h1>Before / after comparison</h1>
+        <p className="note">
+          {new Date(generatedAt).toLocaleString()} ·{" "}
+          {comparison.improved ? "Overall improvement" : "No clear overall improvement"}
+        </p>
+      </header>
+
+      <section className="cols">
+        {([["Before", before], ["After", after]] as const).map(([title, s]) => (
+          <div key={title}>
+            <h2>
+              {title}: {s.label}
+            </h2>
+            {s.imageUrl ? <img className="frame" src={s.imageUrl} alt={`${title} frame`} /> : null}
+            <p>
+              ErgoScore <b>{s.report?.score ?? "—"}</b> · {s.report?.risk ?? "—"} risk
+            </p>
+          </div>
+        ))}
+      </section>
+
+      <section>
+        <ComparisonTables comparison={comparison} />
+      </section>
+    </div>
+  );
+}
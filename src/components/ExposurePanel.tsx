@@ -0,0 +1,81 @@
+import React from "react";
+import type { ExposureStat, ExposureSummary } from "../lib/exposure";
+
+function fmtSec(s: number) {
+  if (s >= 60) return `${Math.floor(s / 60)}m ${Math.round(s % 60)}s`;
+  return `${s.toFixed(1)}s`;
+}
+
+function StatRow({ stat, label }: { stat: ExposureStat; label: string }) {
+  return (
+    <div className={`panelRow ${stat.sustained ? "driverRow" : ""}`}>
+      <div className="label">
+        {label}
+        {stat.sustained ? " · sustained" : ""}
+      </div>
+      <div className="value">
+        {fmtSec(stat.totalSec)} ({stat.percent.toFixed(0)}%) · longest {fmtSec(stat.longestSec)} ·{" "}
+        {stat.perMinute.toFixed(1)}/min
+      </div>
+    </div>
+  );
+}
+
+// Video summary: time in each posture issue / action, with sustained holds flagged
+export default function ExposurePanel({
+  summary,
+  issueTitles = {},
+  onStaticSecondsChange,
+}: {
+  summary: ExposureSummary | null;
+  issueTitles?: Record<string, string>;
+  onStaticSecondsChange?: (seconds: number) => void;
+}) {
+  if (!summary || summary.durationSec <= 0) return null;
+
+  return (
+    <div className="panel inputsPanel">
+      <div className="panelSubTitle">Exposure summary ({fmtSec(summary.durationSec)} analyzed)</div>
+
+      {onStaticSecondsChange ? (
+        <label className="field" style={{ maxWidth: 220 }}>
+          <span className="label">Sustained static hold after (s)</span>
+          <input
+            className="input"
+            type="number"
+            min={1}
+            step={5}
+            value={summary.staticSeconds}
+            onChange={(e) => onStaticSecondsChange(Math.max(1, Number(e.target.value) || 1))}
+          />
+        </label>
+      ) : null}
+
+      <div className="panelSubTitle">Postures</div>
+      {summary.postures.length ? (
+        summary.postures.map((s) => <StatRow key={s.id} stat={s} label={issueTitles[s.id] ?? s.id} />)
+      ) : (
+        <div className="muted">No posture issues in this timeline</div>
+      )}
+
+      <div className="panelSubTitle">Actions</div>
+      {summary.actions.map((s) => (
+        <StatRow key={s.id} stat={s} label={s.id} />
+      ))}
+
+      {summary.sustained.length ? (
+        <>
+          <div className="panelSubTitle">Sustained holds (&gt; {summary.staticSeconds}s)</div>
+          {summary.sustained.map((e, i) => (
+            <div className="panelRow" key={`${e.id}-${i}`}>
+              <div className="label">{e.kind === "posture" ? issueTitles[e.id] ?? e.id : e.id}</div>
+              <div className="value">
+                {e.start.toFixed(1)}–{e.end.toFixed(1)}s ({fmtSec(e.seconds)})
+              </div>
+            </div>
+          ))}
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import React, { useState } from "react";
+import { closePoseLandmarker, landmarkerInfo } from "../lib/poseEngine";
+import { workerModelInfo } from "../lib/poseWorkerClient";
+import {
+  MODEL_VARIANTS,
+  modelLabel,
+  modelSettings,
+  saveModelSettings,
+  type ModelInfo,
+  type ModelSettings,
+  type PoseDelegate,
+  type PoseModelVariant,
+} from "../lib/poseModels";
+
+function loadedText(info: ModelInfo | null) {
+  if (!info) return "Not loaded";
+  return info.note ? `${modelLabel(info)} (${info.note})` : modelLabel(info);
+}
+
+// Pose model variant and delegate; landmarkers are rebuilt the next time a page needs one
+export default function ModelSettingsPanel() {
+  const [s, setS] = useState<ModelSettings>(modelSettings);
+
+  function update(patch: Partial<ModelSettings>) {
+    const next = { ...s, ...patch };
+    saveModelSettings(next);
+    // Free the old model now; the Photo/Video/Live tabs load the new one when opened
+    closePoseLandmarker();
+    setS(next);
+  }
+
+  return (
+    <div className="panel inputsPanel">
+      <div className="panelSubTitle">Pose model</div>
+
+      <div className="inputsGrid">
+        <label className="field">
+          <span className="label">Model</span>
+          <select
+            className="input"
+            value={s.variant}
+            onChange={(e) => update({ variant: e.target.value as PoseModelVariant })}
+          >
+            {(Object.keys(MODEL_VARIANTS) as PoseModelVariant[]).map((v) => (
+              <option key={v} value={v}>
+                {MODEL_VARIANTS[v].label} — {MODEL_VARIANTS[v].description}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="field">
+          <span className="label">Run on</span>
+          <select
+            className="input"
+            value={s.delegate}
+            onChange={(e) => update({ delegate: e.target.value as PoseDelegate })}
+          >
+            <option value="GPU">GPU (falls back to CPU)</option>
+            <option value="CPU">CPU only</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="panelRow">
+        <div className="label">Photo analysis</div>
+        <div className="value">{loadedText(landmarkerInfo())}</div>
+      </div>
+      <div className="panelRow">
+        <div className="label">Video / live (worker)</div>
+        <div className="value">{loadedText(workerModelInfo())}</div>
+      </div>
+      <div className="hint">
+        Full and Heavy are more accurate but slower; if their model file is not available, Lite is used. Each report
+        records the model and delegate it was produced with.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from "react";
+import {
+  assetStatus,
+  downloadAsset,
+  removeAssets,
+  requestPersistentStorage,
+  runtimeAssetPaths,
+  storageUsage,
+  type AssetProgress,
+  type AssetStatus,
+} from "../lib/offlineAssets";
+import { MODEL_VARIANTS, modelSettings, type PoseModelVariant } from "../lib/poseModels";
+import AssetProgressBar, { fmtBytes } from "./AssetProgressBar";
+
+type Group = { id: string; label: string; paths: string[]; removable: boolean };
+
+// Offline copies of the WASM runtime and pose models: status, pre-download, removal and storage use
+export default function OfflineAssetsPanel() {
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [status, setStatus] = useState<Record<string, AssetStatus>>({});
+  const [usage, setUsage] = useState<Awaited<ReturnType<typeof storageUsage>>>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [progress, setProgress] = useState<AssetProgress | null>(null);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  async function refresh() {
+    try {
+      const next: Group[] = [
+        { id: "runtime", label: "MediaPipe runtime (WASM)", paths: await runtimeAssetPaths(), removable: false },
+        ...(Object.keys(MODEL_VARIANTS) as PoseModelVariant[]).map((v) => ({
+          id: v,
+          label: `${MODEL_VARIANTS[v].label} model${v === modelSettings().variant ? " (selected)" : ""}`,
+          paths: [MODEL_VARIANTS[v].path],
+          removable: true,
+        })),
+      ];
+      const list = await assetStatus(next.flatMap((g) => g.paths));
+      setGroups(next);
+      setStatus(Object.fromEntries(list.map((s) => [s.path, s])));
+      setUsage(await storageUsage());
+    } catch (e: any) {
+      setMsg(e?.message ?? String(e));
+    }
+  }
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  async function download(list: Group[]) {
+    setBusy(list.map((g) => g.id).join(","));
+    setMsg(null);
+    try {
+      for (const g of list) for (const path of g.paths) await downloadAsset(path, setProgress);
+      const persisted = await requestPersistentStorage();
+      setMsg(persisted ? "Downloaded and verified." : "Downloaded and verified. The browser may still evict it under storage pressure.");
+    } catch (e: any) {
+      setMsg(e?.message ?? String(e));
+    } finally {
+      setBusy(null);
+      setProgress(null);
+      refresh();
+    }
+  }
+
+  async function remove(g: Group) {
+    if (!window.confirm(`Remove the offline copy of the ${g.label}?`)) return;
+    setMsg(null);
+    try {
+      await removeAssets(g.paths);
+    } catch (e: any) {
+      setMsg(`Could not remove the ${g.label}: ${e?.message ?? String(e)}`);
+    }
+    refresh();
+  }
+
+  return (
+    <div className="panel inputsPanel">
+      <div className="panelSubTitle">Offline files</div>
+
+      {groups.map((g) => {
+        const rows = g.paths.map((p) => status[p]).filter(Boolean);
+        const cached = rows.length > 0 && rows.every((r) => r.cached);
+        const bytes = rows.reduce((a, r) => a + r.bytes, 0);
+        const verified = rows.length > 0 && rows.every((r) => r.checksum);
+        return (
+          <div className="panelRow" key={g.id}>
+            <div className="label">{g.label}</div>
+            <div className="value" style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+              <span className={cached ? undefined : "muted"}>
+                {cached ? `Available offline · ${fmtBytes(bytes)}` : bytes ? `Not downloaded · ${fmtBytes(bytes)}` : "Not downloaded"}
+                {cached && verified ? " · SHA-256 ✓" : ""}
+              </span>
+              <button className="btn" type="button" disabled={!!busy || !g.paths.length} onClick={() => download([g])}>
+                {cached ? "Re-download" : "Download"}
+              </button>
+              {g.removable && cached ? (
+                <button className="btn" type="button" disabled={!!busy} onClick={() => remove(g)}>
+                  Remove
+                </button>
+              ) : null}
+            </div>
+          </div>
+        );
+      })}
+
+      {progress ? <AssetProgressBar progress={progress} /> : null}
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 10 }}>
+        <button
+          className="btn"
+          type="button"
+          disabled={!!busy}
+          onClick={() => download(groups.filter((g) => g.paths.some((p) => !status[p]?.cached)))}
+        >
+          Download everything missing
+        </button>
+      </div>
+
+      {usage ? (
+        <div className="hint">
+          Storage used by this site: {fmtBytes(usage.usage)} of {fmtBytes(usage.quota)}
+          {usage.persisted ? " (persistent)" : ""}
+        </div>
+      ) : null}
+      {msg ? <div className="hint">{msg}</div> : null}
+      <div className="hint">
+        The runtime and the selected model are downloaded on first run. Download a model here before switching to it
+        without a network connection.
+      </div>
+    </div>
+  );
+}
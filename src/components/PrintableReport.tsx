@@ -0,0 +1,413 @@
+import React from "react";
+import { explainLoad } from "../lib/explainLoad";
+import { COMPRESSION_ACTION_LIMIT_N, COMPRESSION_MAX_LIMIT_N } from "../lib/biomechanics";
+import { modelLabel } from "../lib/poseModels";
+import { viewLabel } from "../lib/cameraView";
+import type { ExposureSummary } from "../lib/exposure";
+import { liftSummary, type LiftEvent } from "../lib/niosh";
+import type { SessionSummary } from "../lib/liveSession";
+import type { ReportMeta } from "../lib/exporters";
+import RiskTimeline, { type TimelineSample } from "./RiskTimeline";
+
+type AnyReport = any;
+
+export type WorstFrame = { t: number; score: number; risk: string; url: string };
+
+export type PrintableReportProps = {
+  meta: ReportMeta;
+  kind: "photo" | "video" | "live";
+  report: AnyReport;
+  frameUrl?: string | null;          // annotated frame (image + overlay)
+  samples?: TimelineSample[];
+  duration?: number;
+  worstFrames?: WorstFrame[];
+  exposure?: ExposureSummary | null;
+  lifts?: LiftEvent[];               // NIOSH lift events (video)
+  session?: SessionSummary | null;   // recorded live session
+  generatedAt: string;
+};
+
+const ANGLE_LABELS: Record<string, string> = {
+  trunkFlexion: "Trunk flexion",
+  neckFlexion: "Neck flexion",
+  neckTilt: "Neck tilt",
+  leftShoulderFlexion: "Left upper arm flexion",
+  rightShoulderFlexion: "Right upper arm flexion",
+  leftShoulderAbduction: "Left upper arm abduction",
+  rightShoulderAbduction: "Right upper arm abduction",
+  leftElbow: "Left elbow",
+  rightElbow: "Right elbow",
+  leftKnee: "Left knee",
+  rightKnee: "Right knee",
+  shoulderSlope: "Shoulder height difference",
+  reach: "Forward reach",
+};
+
+// Older saved reports have no lengthUnit; world geometry was always in cm
+function angleValue(key: string, v: number, report: any) {
+  const unit = report?.lengthUnit ?? (report?.basis === "world" ? "cm" : "%");
+  if (key === "shoulderSlope" || key === "reach") return `${v.toFixed(1)} ${unit}`;
+  return `${Math.round(v)}°`;
+}
+
+function fmtSec(s: number) {
+  return s >= 60 ? `${Math.floor(s / 60)}m ${Math.round(s % 60)}s` : `${s.toFixed(1)}s`;
+}
+
+// Print-optimized assessment document; rendered to static HTML by printDocument.openPrintableReport
+export default function PrintableReport({
+  meta,
+  kind,
+  report,
+  frameUrl,
+  samples,
+  duration,
+  worstFrames,
+  exposure,
+  lifts,
+  session,
+  generatedAt,
+}: PrintableReportProps) {
+  const angles: Record<string, number> = report?.angles ?? {};
+  const conf: Record<string, number> = report?.angleConfidence ?? {};
+  const issues: any[] = report?.issues ?? [];
+  const lever = report?.lever ?? null;
+  const risk = String(report?.risk ?? "—");
+
+  return (
+    <div className="doc">
+      <header>
+        <h1>Ergonomic assessment — {kind === "live" && session ? "live session" : kind}</h1>
+        <table className="meta">
+          <tbody>
+            <tr>
+              <th>Assessor</th>
+              <td>{meta.assessor || "—"}</td>
+              <th>Date</th>
+              <td>{new Date(generatedAt).toLocaleString()}</td>
+            </tr>
+            <tr>
+              <th>Site</th>
+              <td>{meta.site || "—"}</td>
+              <th>Task</th>
+              <td>{meta.task || "—"}</td>
+            </tr>
+            {meta.worker || meta.station ? (
+              <tr>
+                <th>Worker</th>
+                <td>{meta.worker || "—"}</td>
+                <th>Station</th>
+                <td>{meta.station || "—"}</td>
+              </tr>
+            ) : null}
+            {meta.source ? (
+              <tr>
+                <th>Source</th>
+                <td colSpan={3}>{meta.source}</td>
+              </tr>
+            ) : null}
+            {meta.notes ? (
+              <tr>
+                <th>Notes</th>
+                <td colSpan={3}>{meta.notes}</td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </header>
+
+      <section className="summary">
+        <div className={`band band${risk}`}>
+          <div className="bandScore">{report?.score ?? "—"}</div>
+          <div>
+            ErgoScore (0–100)
+            <br />
+            <b>{risk} risk</b>
+          </div>
+        </div>
+        {report?.rula ? (
+          <div className="band">
+            <div className="bandScore">{report.rula.score}</div>
+            <div>
+              RULA / 7<br />
+              {report.rula.action}
+            </div>
+          </div>
+        ) : null}
+        {report?.reba ? (
+          <div className="band">
+            <div className="bandScore">{report.reba.score}</div>
+            <div>
+              REBA / 15<br />
+              {report.reba.risk} — {report.reba.action}
+            </div>
+          </div>
+        ) : null}
+      </section>
+
+      {session ? (
+        <section>
+          <h2>Session ({fmtSec(session.durationSec)} with a person in view)</h2>
+          <table className="grid">
+            <tbody>
+              <tr>
+                <th>Average ErgoScore</th>
+                <td>{session.averageScore}</td>
+              </tr>
+              {(["Low", "Medium", "High"] as const).map((b) => (
+                <tr key={b}>
+                  <th>{b} risk</th>
+                  <td>
+                    {fmtSec(session.riskSeconds[b])} (
+                    {session.durationSec > 0 ? Math.round((session.riskSeconds[b] / session.durationSec) * 100) : 0}%)
+                  </td>
+                </tr>
+              ))}
+              <tr>
+                <th>Longest Medium/High stretch</th>
+                <td>{session.longestBad ? fmtSec(session.longestBad.seconds) : "None"}</td>
+              </tr>
+              <tr>
+                <th>Most frequent issues</th>
+                <td>
+                  {session.topIssues.length
+                    ? session.topIssues.map((i) => `${i.title} (${i.percent.toFixed(0)}%)`).join(", ")
+                    : "None"}
+                </td>
+              </tr>
+              <tr>
+                <th>Alerts fired</th>
+                <td>{session.alerts}</td>
+              </tr>
+            </tbody>
+          </table>
+        </section>
+      ) : null}
+
+      {frameUrl ? (
+        <section>
+          <h2>{kind === "video" ? "Reviewed frame" : kind === "live" ? "Last frame" : "Annotated photo"}</h2>
+          <img className="frame" src={frameUrl} alt="Annotated frame" />
+        </section>
+      ) : null}
+
+      <section className="cols">
+        <div>
+          <h2>Joint angles</h2>
+          <table className="grid">
+            <thead>
+              <tr>
+                <th>Measurement</th>
+                <th>Value</th>
+                <th>Visibility</th>
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(angles).map(([k, v]) => (
+                <tr key={k}>
+                  <td>{ANGLE_LABELS[k] ?? k}</td>
+                  <td>{angleValue(k, v, report)}</td>
+                  <td>{conf[k] !== undefined ? `${Math.round(conf[k] * 100)}%` : "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="note">
+            Geometry: {report?.basis === "world" ? "3D world landmarks" : "2D image landmarks (estimate)"}
+            {report?.profile ? ` · Rule profile: ${report.profile.name}` : ""}
+            {report?.calibration ? ` · Calibrated station: ${report.calibration.station} (${report.calibration.method})` : ""}
+            {report?.model ? ` · Pose model: ${modelLabel(report.model)}${report.model.note ? ` (${report.model.note})` : ""}` : ""}
+            {report?.view ? ` · Camera view: ${viewLabel(report.view)}` : ""}
+          </p>
+        </div>
+
+        <div>
+          <h2>Load and force</h2>
+          {lever ? (
+            <table className="grid">
+              <tbody>
+                <tr>
+                  <th>Strain index</th>
+                  <td>
+                    {Number(lever.strainIndex).toFixed(1)} ({lever.strainLevel})
+                  </td>
+                </tr>
+                <tr>
+                  <th>Shoulder moment index</th>
+                  <td>{Number(lever.shoulderMomentIndex).toFixed(2)}</td>
+                </tr>
+                <tr>
+                  <th>Low-back moment index</th>
+                  <td>{Number(lever.lowBackMomentIndex).toFixed(2)}</td>
+                </tr>
+                {lever.units ? (
+                  <tr>
+                    <th>Reach / trunk lean</th>
+                    <td>
+                      {lever.units.reachCm.toFixed(0)} cm / {lever.units.trunkLeanCm.toFixed(0)} cm
+                    </td>
+                  </tr>
+                ) : null}
+                {lever.biomech ? (
+                  <>
+                    <tr>
+                      <th>L5/S1 moment</th>
+                      <td>{lever.biomech.l5s1MomentNm.toFixed(0)} N·m</td>
+                    </tr>
+                    <tr>
+                      <th>Disc compression</th>
+                      <td>
+                        {lever.biomech.compressionN} N ({lever.biomech.compressionLevel}; action limit{" "}
+                        {COMPRESSION_ACTION_LIMIT_N} N, maximum {COMPRESSION_MAX_LIMIT_N} N)
+                      </td>
+                    </tr>
+                    <tr>
+                      <th>Shoulder moment L / R</th>
+                      <td>
+                        {lever.biomech.shoulderMomentNm.left.toFixed(1)} / {lever.biomech.shoulderMomentNm.right.toFixed(1)}{" "}
+                        N·m ({lever.biomech.shoulderStrengthPct}% of mean strength, {lever.biomech.shoulderLevel})
+                      </td>
+                    </tr>
+                    <tr>
+                      <th>Model inputs</th>
+                      <td>
+                        {lever.biomech.bodyMassKg} kg body mass · {lever.biomech.handLoadKg} kg in hands · scale from{" "}
+                        {lever.biomech.scaleSource}
+                      </td>
+                    </tr>
+                  </>
+                ) : null}
+                {lever.force ? (
+                  <tr>
+                    <th>Estimated force</th>
+                    <td>
+                      {lever.force.level} ({lever.force.value}/100)
+                    </td>
+                  </tr>
+                ) : null}
+                {report?.action ? (
+                  <tr>
+                    <th>Action</th>
+                    <td>{report.action.label}</td>
+                  </tr>
+                ) : null}
+              </tbody>
+            </table>
+          ) : (
+            <p className="note">Lever metrics unavailable (key joints not visible).</p>
+          )}
+          <p>{explainLoad(report?.action?.label, lever)}</p>
+        </div>
+      </section>
+
+      <section>
+        <h2>Posture issues</h2>
+        {issues.length ? (
+          issues.map((it) => (
+            <div className="issue" key={it.id}>
+              <div className="issueHead">
+                <b>{it.title}</b> <span className={`sev sev${it.severity}`}>{it.severity}</span>
+                {it.measured ? <span className="note"> · {it.measured}</span> : null}
+              </div>
+              {it.whyItMatters ? <div>Why it matters: {it.whyItMatters}</div> : null}
+              {it.fix ? <div>Recommended fix: {it.fix}</div> : null}
+            </div>
+          ))
+        ) : (
+          <p className="note">No posture issues detected.</p>
+        )}
+      </section>
+
+      {kind !== "photo" && samples?.length ? (
+        <section className="pageBreak">
+          <h2>Risk timeline</h2>
+          <RiskTimeline samples={samples} duration={duration} />
+        </section>
+      ) : null}
+
+      {exposure && exposure.durationSec > 0 ? (
+        <section>
+          <h2>Exposure ({fmtSec(exposure.durationSec)} analyzed)</h2>
+          <table className="grid">
+            <thead>
+              <tr>
+                <th>Posture / action</th>
+                <th>Total</th>
+                <th>% of task</th>
+                <th>Longest hold</th>
+                <th>Per minute</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...exposure.postures, ...exposure.actions].map((s) => (
+                <tr key={`${s.kind}-${s.id}`} className={s.sustained ? "flag" : ""}>
+                  <td>
+                    {s.id}
+                    {s.sustained ? ` (held > ${exposure.staticSeconds}s)` : ""}
+                  </td>
+                  <td>{fmtSec(s.totalSec)}</td>
+                  <td>{s.percent.toFixed(0)}%</td>
+                  <td>{fmtSec(s.longestSec)}</td>
+                  <td>{s.perMinute.toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      ) : null}
+
+      {lifts?.length ? (
+        <section>
+          <h2>Lift events (NIOSH)</h2>
+          <table className="grid">
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>V origin → destination</th>
+                <th>H origin</th>
+                <th>RWL origin</th>
+                <th>Lifting index</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lifts.map((l, i) => (
+                <tr key={`${l.start}-${i}`} className={l.outOfRange || (l.li ?? 0) > 1 ? "flag" : ""}>
+                  <td>
+                    {l.start.toFixed(1)}–{l.end.toFixed(1)}s
+                  </td>
+                  <td>
+                    {Math.round(l.origin.v)} → {Math.round(l.destination.v)} cm
+                  </td>
+                  <td>{Math.round(l.origin.h)} cm</td>
+                  <td>{l.rwlOrigin} kg</td>
+                  <td>{liftSummary(l)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      ) : null}
+
+      {worstFrames?.length ? (
+        <section>
+          <h2>Worst frames</h2>
+          <div className="thumbs">
+            {worstFrames.map((f) => (
+              <figure key={f.t}>
+                <img src={f.url} alt={`Frame at ${f.t.toFixed(1)}s`} />
+                <figcaption>
+                  {f.t.toFixed(1)}s · score {f.score} · {f.risk}
+                </figcaption>
+              </figure>
+            ))}
+          </div>
+        </section>
+      ) : null}
+
+      <footer className="note">
+        Generated by ErgoFit on {new Date(generatedAt).toLocaleString()}. Camera-based screening estimate; confirm
+        high-risk findings with an on-site assessment.
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import React from "react";
+import type { ReportMeta } from "../lib/exporters";
+
+// Labels printed on the assessment report and saved with the history entry
+export default function ReportMetaFields({
+  value,
+  onChange,
+}: {
+  value: ReportMeta;
+  onChange: (next: ReportMeta) => void;
+}) {
+  const field = (key: "assessor" | "site" | "task" | "worker" | "station", label: string) => (
+    <label className="field">
+      <span className="label">{label}</span>
+      <input
+        className="input"
+        type="text"
+        value={value[key] ?? ""}
+        onChange={(e) => onChange({ ...value, [key]: e.target.value })}
+      />
+    </label>
+  );
+
+  return (
+    <div className="panel inputsPanel">
+      <div className="panelSubTitle">Assessment details</div>
+      <div className="inputsGrid">
+        {field("worker", "Worker")}
+        {field("task", "Task")}
+        {field("station", "Station")}
+        {field("site", "Site")}
+        {field("assessor", "Assessor")}
+      </div>
+      <label className="field" style={{ marginTop: 10 }}>
+        <span className="label">Notes</span>
+        <textarea
+          className="input"
+          rows={2}
+          value={value.notes ?? ""}
+          onChange={(e) => onChange({ ...value, notes: e.target.value })}
+        />
+      </label>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import React from "react";
+import { modelLabel } from "../lib/poseModels";
+import { viewLabel } from "../lib/cameraView";
 
 type AnyReport = any;
 
@@ -8,6 +10,25 @@ function riskText(report: AnyReport) {
   return report?.risk?.level || report?.risk?.label || "—";
 }
 
+export function isLowConf(conf: any, threshold: number) {
+  const c = Number(conf);
+  return Number.isFinite(c) && c < threshold;
+}
+
+export function fmtConf(conf: any) {
+  return `${Math.round(Number(conf) * 100)}% visible`;
+}
+
+// shoulderSlope / reach are lengths; everything else is degrees
+function fmtAngle(report: AnyReport, key: string, v: any) {
+  const n = Number(v);
+  if (!Number.isFinite(n)) return "—";
+  if (key === "shoulderSlope" || key === "reach") {
+    return `${n.toFixed(1)} ${report?.lengthUnit ?? (report?.basis === "world" ? "cm" : "%")}`;
+  }
+  return `${n.toFixed(0)}°`;
+}
+
 function fmtNum(v: any, digits = 2) {
   const n = Number(v);
   if (!Number.isFinite(n)) return "—";
@@ -24,6 +45,10 @@ export default function RightPanel({
   const angles = report?.angles ?? null;
   const issues = report?.issues ?? null;
   const lever = report?.lever ?? null;
+  const rula = report?.rula ?? null;
+  const reba = report?.reba ?? null;
+  const angleConf = report?.angleConfidence ?? {};
+  const minVis = Number(report?.minVisibility ?? 0.5);
 
   return (
     <div className="panel">
@@ -39,6 +64,107 @@ export default function RightPanel({
         <div className="value">{riskText(report)}</div>
       </div>
 
+      <div className="panelRow">
+        <div className="label">Geometry</div>
+        <div className="value">
+          {report?.basis === "world" ? "3D world landmarks" : report?.basis === "image" ? "2D image (fallback)" : "—"}
+        </div>
+      </div>
+
+      {report?.profile ? (
+        <div className="panelRow">
+          <div className="label">Rule profile</div>
+          <div className="value">{report.profile.name}</div>
+        </div>
+      ) : null}
+
+      {report?.calibration ? (
+        <div className="panelRow">
+          <div className="label">Calibration</div>
+          <div className="value">{report.calibration.station}</div>
+        </div>
+      ) : null}
+
+      {report?.model ? (
+        <div className="panelRow">
+          <div className="label">Pose model</div>
+          <div className="value" title={report.model.note}>
+            {modelLabel(report.model)}
+          </div>
+        </div>
+      ) : null}
+
+      {report?.view ? (
+        <div className="panelRow">
+          <div className="label">Camera view</div>
+          <div className="value" title={report.view.yawDeg !== undefined ? `Body turned ~${report.view.yawDeg}° from the camera` : undefined}>
+            {viewLabel(report.view)}
+          </div>
+        </div>
+      ) : null}
+
+      {/* RULA */}
+      <div className="panelSection">
+        <div className="panelSubTitle">RULA</div>
+        {rula ? (
+          <>
+            <div className="panelRow">
+              <div className="label">Final score</div>
+              <div className="value">{rula.score} / 7</div>
+            </div>
+            <div className="panelRow">
+              <div className="label">Action level {rula.actionLevel}</div>
+              <div className="value">{rula.action}</div>
+            </div>
+            <div className="panelRow">
+              <div className="label">Arm &amp; wrist (A, {rula.side})</div>
+              <div className="value">
+                {rula.scoreA} (UA {rula.upperArm} · LA {rula.lowerArm} · W {rula.wrist})
+              </div>
+            </div>
+            <div className="panelRow">
+              <div className="label">Neck, trunk &amp; legs (B)</div>
+              <div className="value">
+                {rula.scoreB} (N {rula.neck} · T {rula.trunk} · L {rula.legs})
+              </div>
+            </div>
+          </>
+        ) : (
+          <div className="muted">No RULA score yet</div>
+        )}
+      </div>
+
+      {/* REBA */}
+      <div className="panelSection">
+        <div className="panelSubTitle">REBA</div>
+        {reba ? (
+          <>
+            <div className="panelRow">
+              <div className="label">Final score</div>
+              <div className="value">{reba.score} / 15</div>
+            </div>
+            <div className="panelRow">
+              <div className="label">{reba.risk} risk</div>
+              <div className="value">{reba.action}</div>
+            </div>
+            {reba.segments.map((sg: any) => (
+              <div className={`panelRow ${sg.id === reba.driver ? "driverRow" : ""}`} key={sg.id}>
+                <div className="label">
+                  {sg.label}
+                  {sg.id === reba.driver ? " (main driver)" : ""}
+                  {isLowConf(sg.confidence, minVis) ? <span className="lowConf"> ⚠ {fmtConf(sg.confidence)}</span> : null}
+                </div>
+                <div className="value">
+                  {sg.score} · {sg.posture}
+                </div>
+              </div>
+            ))}
+          </>
+        ) : (
+          <div className="muted">No REBA score yet</div>
+        )}
+      </div>
+
       {/* Action */}
       <div className="panelSection">
         <div className="panelSubTitle">Action</div>
@@ -75,10 +201,11 @@ export default function RightPanel({
         {angles ? (
           Object.entries(angles).map(([k, v]) => (
             <div className="panelRow" key={k}>
-              <div className="label">{k}</div>
-              <div className="value">
-                {Number.isFinite(Number(v)) ? `${Number(v).toFixed(0)}°` : "—"}
+              <div className="label">
+                {k}
+                {isLowConf(angleConf[k], minVis) ? <span className="lowConf"> ⚠ {fmtConf(angleConf[k])}</span> : null}
               </div>
+              <div className="value">{fmtAngle(report, k, v)}</div>
             </div>
           ))
         ) : (
@@ -93,6 +220,11 @@ export default function RightPanel({
           issues.map((it: any) => (
             <div className="issueCard" key={it.id ?? it.title}>
               <div className="issueTitle">{it.title ?? "Issue"}</div>
+              {isLowConf(it.confidence, minVis) ? (
+                <div className="issueMeta lowConf">
+                  ⚠ Measured from poorly visible joints ({fmtConf(it.confidence)})
+                </div>
+              ) : null}
               {it.measured ? <div className="issueMeta">{it.measured}</div> : null}
               {it.whyItMatters ? <div className="issueMeta">{it.whyItMatters}</div> : null}
               {it.fix ? <div className="issueFix">Fix: {it.fix}</div> : null}
@@ -124,6 +256,35 @@ export default function RightPanel({
               <div className="label">Strain level</div>
               <div className="value">{lever.strainLevel ?? "—"}</div>
             </div>
+            {lever.units ? (
+              <div className="panelRow">
+                <div className="label">Reach / trunk lean</div>
+                <div className="value">
+                  {fmtNum(lever.units.reachCm, 0)} / {fmtNum(lever.units.trunkLeanCm, 0)} cm
+                </div>
+              </div>
+            ) : null}
+            {lever.biomech ? (
+              <>
+                <div className="panelRow">
+                  <div className="label">L5/S1 moment</div>
+                  <div className="value">{fmtNum(lever.biomech.l5s1MomentNm, 0)} N·m</div>
+                </div>
+                <div className={`panelRow ${lever.biomech.compressionLevel !== "Low" ? "driverRow" : ""}`}>
+                  <div className="label">Disc compression</div>
+                  <div className="value">
+                    {fmtNum(lever.biomech.compressionN, 0)} N ({lever.biomech.compressionLevel})
+                  </div>
+                </div>
+                <div className={`panelRow ${lever.biomech.shoulderLevel !== "Low" ? "driverRow" : ""}`}>
+                  <div className="label">Shoulder moment L / R</div>
+                  <div className="value">
+                    {fmtNum(lever.biomech.shoulderMomentNm.left, 1)} / {fmtNum(lever.biomech.shoulderMomentNm.right, 1)}{" "}
+                    N·m ({lever.biomech.shoulderStrengthPct}% strength)
+                  </div>
+                </div>
+              </>
+            ) : null}
           </>
         ) : (
           <div className="muted">No lever metrics yet</div>
@@ -0,0 +1,201 @@
+import React, { useMemo, useRef } from "react";
+
+export type TimelineSample = {
+  t: number;
+  score: number;
+  risk: "Low" | "Medium" | "High";
+  action?: string;
+  force?: number;
+  issues?: string[];
+};
+
+const RISK_COLOR: Record<string, string> = {
+  Low: "var(--good)",
+  Medium: "var(--warn)",
+  High: "var(--bad)",
+};
+
+const ACTION_COLORS = ["#60a5fa", "#f472b6", "#a3e635", "#fb923c", "#c084fc", "#facc15", "#2dd4bf", "#94a3b8"];
+
+// Chart geometry in SVG user units; the chart scales to the card width
+const W = 1000;
+const LABEL_W = 110;
+const PLOT_W = W - LABEL_W;
+const SCORE_H = 70;
+const LANE_H = 16;
+const GAP = 6;
+
+type Span = { start: number; end: number; value: string };
+
+// Merge consecutive samples with the same value into spans
+function spans(samples: TimelineSample[], get: (s: TimelineSample) => string | undefined, end: number): Span[] {
+  const out: Span[] = [];
+  samples.forEach((s, i) => {
+    const value = get(s);
+    const next = samples[i + 1]?.t ?? end;
+    if (!value) return;
+    const last = out[out.length - 1];
+    if (last && last.value === value && Math.abs(last.end - s.t) < 1e-6) last.end = next;
+    else out.push({ start: s.t, end: next, value });
+  });
+  return out;
+}
+
+export default function RiskTimeline({
+  samples,
+  duration,
+  current,
+  onSeek,
+}: {
+  samples: TimelineSample[];
+  duration?: number;
+  current?: number;
+  onSeek?: (t: number) => void;
+}) {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+
+  // video.duration is NaN before metadata loads and Infinity for streamed / recorded webm
+  const known = duration !== undefined && Number.isFinite(duration) ? duration : 0;
+  const end = Math.max(known, samples[samples.length - 1]?.t ?? 0, 0.001);
+  const x = (t: number) => LABEL_W + (t / end) * PLOT_W;
+
+  const issueIds = useMemo(() => {
+    const ids = new Set<string>();
+    for (const s of samples) s.issues?.forEach((id) => ids.add(id));
+    return [...ids].sort();
+  }, [samples]);
+
+  const actionColor = useMemo(() => {
+    const labels = [...new Set(samples.map((s) => s.action).filter(Boolean) as string[])];
+    return (label: string) => ACTION_COLORS[labels.indexOf(label) % ACTION_COLORS.length];
+  }, [samples]);
+
+  if (!samples.length) return null;
+
+  const scorePath = samples
+    .map((s, i) => `${i ? "L" : "M"}${x(s.t).toFixed(1)},${(SCORE_H - (s.score / 100) * SCORE_H).toFixed(1)}`)
+    .join(" ");
+  const forcePath = samples
+    .filter((s) => s.force !== undefined)
+    .map((s, i) => `${i ? "L" : "M"}${x(s.t).toFixed(1)},${(LANE_H * 2 - ((s.force ?? 0) / 100) * LANE_H * 2).toFixed(1)}`)
+    .join(" ");
+
+  const riskSpans = spans(samples, (s) => s.risk, end);
+  const actionSpans = spans(samples, (s) => s.action, end);
+
+  // Lane layout
+  const actionY = SCORE_H + GAP;
+  const forceY = actionY + LANE_H + GAP;
+  const issuesY = forceY + LANE_H * 2 + GAP;
+  const height = issuesY + issueIds.length * (LANE_H + 2) + 4;
+
+  function seekFromEvent(e: React.PointerEvent<SVGSVGElement>) {
+    const svg = svgRef.current;
+    if (!svg || !onSeek) return;
+    const rect = svg.getBoundingClientRect();
+    const px = ((e.clientX - rect.left) / rect.width) * W;
+    const t = ((px - LABEL_W) / PLOT_W) * end;
+    onSeek(Math.min(Math.max(t, 0), end));
+  }
+
+  return (
+    <div className="timeline">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${W} ${height}`}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          seekFromEvent(e);
+        }}
+        onPointerMove={(e) => {
+          if (e.buttons & 1) seekFromEvent(e);
+        }}
+      >
+        {/* ErgoScore over the risk band */}
+        <text className="timelineLabel" x={4} y={14}>
+          ErgoScore
+        </text>
+        {riskSpans.map((sp, i) => (
+          <rect
+            key={`r${i}`}
+            x={x(sp.start)}
+            y={0}
+            width={Math.max(x(sp.end) - x(sp.start), 1)}
+            height={SCORE_H}
+            fill={RISK_COLOR[sp.value]}
+            opacity={0.16}
+          >
+            <title>{`${sp.value} risk ${sp.start.toFixed(1)}–${sp.end.toFixed(1)}s`}</title>
+          </rect>
+        ))}
+        <path d={scorePath} fill="none" stroke="var(--text)" strokeWidth={1.5} />
+
+        {/* Action segments */}
+        <text className="timelineLabel" x={4} y={actionY + 12}>
+          Action
+        </text>
+        {actionSpans.map((sp, i) => (
+          <rect
+            key={`a${i}`}
+            x={x(sp.start)}
+            y={actionY}
+            width={Math.max(x(sp.end) - x(sp.start), 1)}
+            height={LANE_H}
+            fill={actionColor(sp.value)}
+            opacity={0.7}
+          >
+            <title>{`${sp.value} ${sp.start.toFixed(1)}–${sp.end.toFixed(1)}s`}</title>
+          </rect>
+        ))}
+
+        {/* Force */}
+        <text className="timelineLabel" x={4} y={forceY + 20}>
+          Force
+        </text>
+        <g transform={`translate(0, ${forceY})`}>
+          <rect x={LABEL_W} y={0} width={PLOT_W} height={LANE_H * 2} fill="var(--panel)" />
+          {forcePath ? <path d={forcePath} fill="none" stroke="var(--accent)" strokeWidth={1.5} /> : null}
+        </g>
+
+        {/* One lane per issue id */}
+        {issueIds.map((id, lane) => {
+          const y = issuesY + lane * (LANE_H + 2);
+          return (
+            <g key={id}>
+              <text className="timelineLabel" x={4} y={y + 12}>
+                {id}
+              </text>
+              {spans(samples, (s) => (s.issues?.includes(id) ? id : undefined), end).map((sp, i) => (
+                <rect
+                  key={i}
+                  x={x(sp.start)}
+                  y={y}
+                  width={Math.max(x(sp.end) - x(sp.start), 1)}
+                  height={LANE_H}
+                  fill="var(--bad)"
+                  opacity={0.55}
+                >
+                  <title>{`${id} ${sp.start.toFixed(1)}–${sp.end.toFixed(1)}s`}</title>
+                </rect>
+              ))}
+            </g>
+          );
+        })}
+
+        {/* Playhead */}
+        {current !== undefined ? (
+          <line x1={x(current)} x2={x(current)} y1={0} y2={height} stroke="var(--accent)" strokeWidth={2} />
+        ) : null}
+      </svg>
+
+      <div className="timelineLegend">
+        {[...new Set(actionSpans.map((s) => s.value))].map((label) => (
+          <span key={label} className="timelineKey">
+            <i style={{ background: actionColor(label) }} />
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+import React, { useRef, useState } from "react";
+import {
+  RULE_BELOW,
+  RULE_IDS,
+  activeProfile,
+  allProfiles,
+  customProfiles,
+  exportProfilesJson,
+  parseProfilesJson,
+  saveCustomProfiles,
+  setActiveProfile,
+  type IssueRule,
+  type RuleId,
+  type RuleProfile,
+} from "../lib/ruleProfiles";
+import { downloadBlob } from "../lib/exporters";
+
+const RULE_LABEL: Record<RuleId, string> = {
+  "neck-tilt": "Neck tilt (°)",
+  "shoulder-slope": "Shoulder height difference",
+  reach: "Forward reach",
+  "left-knee": "Left knee angle (°)",
+  "right-knee": "Right knee angle (°)",
+};
+
+// Keeps what is typed while it is empty or not a number; only valid values are saved
+function NumberInput({
+  value,
+  onChange,
+  step = 1,
+  disabled,
+}: {
+  value: number;
+  onChange: (v: number) => void;
+  step?: number;
+  disabled?: boolean;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+  return (
+    <input
+      className="input"
+      type="number"
+      step={step}
+      value={draft ?? value}
+      disabled={disabled}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const v = e.target.value.trim() === "" ? NaN : Number(e.target.value);
+        if (Number.isFinite(v)) onChange(v);
+      }}
+      onBlur={() => setDraft(null)}
+    />
+  );
+}
+
+// Pick, edit, import and export the threshold profiles used by the posture rules
+export default function RuleProfileSettings() {
+  const [profiles, setProfiles] = useState<RuleProfile[]>(allProfiles);
+  const [activeId, setActiveId] = useState(() => activeProfile().id);
+  const [editId, setEditId] = useState(() => activeProfile().id);
+  const [msg, setMsg] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const editing = profiles.find((p) => p.id === editId) ?? profiles[0];
+  const readOnly = !!editing.builtIn;
+
+  function persist(custom: RuleProfile[]) {
+    saveCustomProfiles(custom);
+    setProfiles(allProfiles());
+  }
+
+  function update(patch: Partial<RuleProfile>) {
+    if (readOnly) return;
+    persist(customProfiles().map((p) => (p.id === editing.id ? { ...p, ...patch } : p)));
+  }
+
+  function updateRule(id: RuleId, patch: Partial<IssueRule>) {
+    update({ rules: { ...editing.rules, [id]: { ...editing.rules[id], ...patch } } });
+  }
+
+  function activate(id: string) {
+    setActiveProfile(id);
+    setActiveId(id);
+  }
+
+  function duplicate() {
+    const copy: RuleProfile = {
+      ...JSON.parse(JSON.stringify(editing)),
+      id: `custom-${Date.now().toString(36)}`,
+      name: `${editing.name} (copy)`,
+      builtIn: undefined,
+    };
+    persist([...customProfiles(), copy]);
+    setEditId(copy.id);
+  }
+
+  function remove() {
+    if (readOnly || !window.confirm(`Delete profile "${editing.name}"?`)) return;
+    persist(customProfiles().filter((p) => p.id !== editing.id));
+    if (activeId === editing.id) activate("default");
+    setEditId("default");
+  }
+
+  async function importFile(file: File) {
+    try {
+      const taken = new Set(allProfiles().map((p) => p.id));
+      const imported = parseProfilesJson(await file.text()).map((p) =>
+        taken.has(p.id) ? { ...p, id: `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}` } : p
+      );
+      persist([...customProfiles(), ...imported]);
+      if (imported[0]) setEditId(imported[0].id);
+      setMsg(`Imported ${imported.length} profile(s).`);
+    } catch (e: any) {
+      setMsg(`Import failed: ${e?.message ?? String(e)}`);
+    }
+  }
+
+  const numInput = (value: number, onChange: (v: number) => void, step = 1) => (
+    <NumberInput value={value} onChange={onChange} step={step} disabled={readOnly} />
+  );
+
+  return (
+    <div className="panel inputsPanel">
+      <div className="panelSubTitle">Posture rule profiles</div>
+
+      <div className="inputsGrid">
+        <label className="field">
+          <span className="label">Active profile (used for new analyses)</span>
+          <select className="input" value={activeId} onChange={(e) => activate(e.target.value)}>
+            {profiles.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="field">
+          <span className="label">Edit profile</span>
+          <select className="input" value={editing.id} onChange={(e) => setEditId(e.target.value)}>
+            {profiles.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+                {p.builtIn ? " (built-in)" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 10 }}>
+        <button className="btn" type="button" onClick={duplicate}>
+          Duplicate
+        </button>
+        <button className="btn" type="button" disabled={readOnly} onClick={remove}>
+          Delete
+        </button>
+        <button
+          className="btn"
+          type="button"
+          onClick={() => downloadBlob(exportProfilesJson([editing]), `ergofit-profile-${editing.id}.json`, "application/json")}
+        >
+          Export this profile
+        </button>
+        <button
+          className="btn"
+          type="button"
+          disabled={!customProfiles().length}
+          onClick={() => downloadBlob(exportProfilesJson(customProfiles()), "ergofit-profiles.json", "application/json")}
+        >
+          Export custom profiles
+        </button>
+        <button className="btn" type="button" onClick={() => fileRef.current?.click()}>
+          Import JSON
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const f = e.target.files?.[0];
+            if (f) importFile(f);
+            e.currentTarget.value = "";
+          }}
+        />
+      </div>
+      {readOnly ? <div className="hint">Built-in profiles are read-only — duplicate one to customize it.</div> : null}
+      {msg ? <div className="hint">{msg}</div> : null}
+
+      <div className="inputsGrid" style={{ marginTop: 10 }}>
+        <label className="field">
+          <span className="label">Name</span>
+          <input
+            key={editing.id}
+            className="input"
+            type="text"
+            defaultValue={editing.name}
+            disabled={readOnly}
+            onChange={(e) => {
+              // A blank name is not saved; leaving the field empty restores the last one
+              if (e.target.value.trim()) update({ name: e.target.value });
+            }}
+            onBlur={(e) => {
+              if (!e.target.value.trim()) e.target.value = editing.name;
+            }}
+          />
+        </label>
+        <label className="field">
+          <span className="label">Description</span>
+          <input
+            className="input"
+            type="text"
+            value={editing.description ?? ""}
+            disabled={readOnly}
+            onChange={(e) => update({ description: e.target.value })}
+          />
+        </label>
+        <label className="field">
+          <span className="label">Score penalty — MILD</span>
+          {numInput(editing.penalties.MILD, (v) => update({ penalties: { ...editing.penalties, MILD: v } }))}
+        </label>
+        <label className="field">
+          <span className="label">Score penalty — HIGH</span>
+          {numInput(editing.penalties.HIGH, (v) => update({ penalties: { ...editing.penalties, HIGH: v } }))}
+        </label>
+        <label className="field">
+          <span className="label">Low risk when score ≥</span>
+          {numInput(editing.riskBands.low, (v) => update({ riskBands: { ...editing.riskBands, low: v } }))}
+        </label>
+        <label className="field">
+          <span className="label">Medium risk when score ≥</span>
+          {numInput(editing.riskBands.medium, (v) => update({ riskBands: { ...editing.riskBands, medium: v } }))}
+        </label>
+      </div>
+
+      {RULE_IDS.map((id) => {
+        const r = editing.rules[id];
+        const op = RULE_BELOW[id] ? "<" : ">";
+        return (
+          <div key={id} className="ruleRow">
+            <label className="check">
+              <input
+                type="checkbox"
+                checked={r.enabled}
+                disabled={readOnly}
+                onChange={(e) => updateRule(id, { enabled: e.target.checked })}
+              />
+              {RULE_LABEL[id]}
+            </label>
+            <div className="inputsGrid">
+              <label className="field">
+                <span className="label">MILD when {op}{r.cm ? " (% of frame)" : ""}</span>
+                {numInput(r.mild, (v) => updateRule(id, { mild: v }), 0.5)}
+              </label>
+              <label className="field">
+                <span className="label">HIGH when {op}{r.cm ? " (% of frame)" : ""}</span>
+                {numInput(r.high, (v) => updateRule(id, { high: v }), 0.5)}
+              </label>
+              {r.cm ? (
+                <>
+                  <label className="field">
+                    <span className="label">MILD when {op} (cm)</span>
+                    {numInput(r.cm.mild, (v) => updateRule(id, { cm: { ...r.cm!, mild: v } }), 0.5)}
+                  </label>
+                  <label className="field">
+                    <span className="label">HIGH when {op} (cm)</span>
+                    {numInput(r.cm.high, (v) => updateRule(id, { cm: { ...r.cm!, high: v } }), 0.5)}
+                  </label>
+                </>
+              ) : null}
+              <label className="field">
+                <span className="label">Max severity</span>
+                <select
+                  className="input"
+                  value={r.maxSeverity}
+                  disabled={readOnly}
+                  onChange={(e) => updateRule(id, { maxSeverity: e.target.value as IssueRule["maxSeverity"] })}
+                >
+                  <option value="HIGH">HIGH</option>
+                  <option value="MILD">MILD (advisory)</option>
+                </select>
+              </label>
+              <label className="field">
+                <span className="label">Custom fix text</span>
+                <input
+                  className="input"
+                  type="text"
+                  placeholder="Built-in advice"
+                  value={r.fix ?? ""}
+                  disabled={readOnly}
+                  onChange={(e) => updateRule(id, { fix: e.target.value || undefined })}
+                />
+              </label>
+            </div>
+          </div>
+        );
+      })}
+      <div className="hint">
+        Length rules use the cm limits when lengths are real units (3D world landmarks or a calibrated station) and
+        the % of frame limits otherwise.
+      </div>
+    </div>
+  );
+}
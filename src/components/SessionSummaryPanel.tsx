@@ -0,0 +1,77 @@
+import React from "react";
+import type { SessionSummary } from "../lib/liveSession";
+
+function fmtSec(s: number) {
+  if (s >= 3600) return `${Math.floor(s / 3600)}h ${Math.round((s % 3600) / 60)}m`;
+  return s >= 60 ? `${Math.floor(s / 60)}m ${Math.round(s % 60)}s` : `${Math.round(s)}s`;
+}
+
+const BANDS = ["Low", "Medium", "High"] as const;
+
+// End-of-session summary for a recorded live session
+export default function SessionSummaryPanel({ summary }: { summary: SessionSummary }) {
+  const pct = (sec: number) => (summary.durationSec > 0 ? Math.round((sec / summary.durationSec) * 100) : 0);
+
+  return (
+    <div className="panel inputsPanel">
+      <div className="panelSubTitle">
+        Session summary — {new Date(summary.startedAt).toLocaleString()}
+      </div>
+
+      <div className="panelRow">
+        <div className="label">Recorded (person in view)</div>
+        <div className="value">{fmtSec(summary.durationSec)}</div>
+      </div>
+      <div className="panelRow">
+        <div className="label">Average ErgoScore</div>
+        <div className="value">{summary.averageScore}</div>
+      </div>
+      <div className="riskBar">
+        {BANDS.map((b) =>
+          summary.riskSeconds[b] > 0 ? (
+            <div
+              key={b}
+              className={`riskBar${b}`}
+              style={{ width: `${pct(summary.riskSeconds[b])}%` }}
+              title={`${b}: ${fmtSec(summary.riskSeconds[b])}`}
+            />
+          ) : null
+        )}
+      </div>
+      {BANDS.map((b) => (
+        <div className="panelRow" key={b}>
+          <div className="label">{b} risk</div>
+          <div className="value">
+            {fmtSec(summary.riskSeconds[b])} ({pct(summary.riskSeconds[b])}%)
+          </div>
+        </div>
+      ))}
+      <div className="panelRow">
+        <div className="label">Longest Medium/High stretch</div>
+        <div className="value">
+          {summary.longestBad
+            ? `${fmtSec(summary.longestBad.seconds)} (from ${fmtSec(summary.longestBad.start)})`
+            : "None"}
+        </div>
+      </div>
+      <div className="panelRow">
+        <div className="label">Alerts fired</div>
+        <div className="value">{summary.alerts}</div>
+      </div>
+
+      <div className="panelSubTitle">Most frequent issues</div>
+      {summary.topIssues.length ? (
+        summary.topIssues.map((i) => (
+          <div className="panelRow" key={i.id}>
+            <div className="label">{i.title}</div>
+            <div className="value">
+              {fmtSec(i.totalSec)} ({i.percent.toFixed(0)}%) · {i.occurrences}×
+            </div>
+          </div>
+        ))
+      ) : (
+        <div className="muted">No posture issues recorded</div>
+      )}
+    </div>
+  );
+}
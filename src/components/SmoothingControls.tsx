@@ -0,0 +1,129 @@
+import React, { useState } from "react";
+import {
+  DEFAULT_SMOOTHING,
+  SMOOTHING_LABELS,
+  saveSmoothingSettings,
+  smoothingSettings,
+  type SmoothingMethod,
+  type SmoothingSettings,
+} from "../lib/landmarkSmoothing";
+
+function NumberField({
+  label,
+  value,
+  step,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  step: number;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <label className="field">
+      <span className="label">{label}</span>
+      <input
+        className="input"
+        type="number"
+        min={0}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+      />
+    </label>
+  );
+}
+
+// Landmark smoothing filter and its parameters; shared by Live and Video, applies from the next frame
+export default function SmoothingControls() {
+  const [s, setS] = useState<SmoothingSettings>(smoothingSettings);
+
+  function update(patch: Partial<SmoothingSettings>) {
+    const next = { ...s, ...patch };
+    saveSmoothingSettings(next);
+    setS(next);
+  }
+
+  return (
+    <div className="panel inputsPanel">
+      <div className="panelSubTitle">Landmark smoothing</div>
+
+      <div className="inputsGrid">
+        <label className="field">
+          <span className="label">Filter</span>
+          <select
+            className="input"
+            value={s.method}
+            onChange={(e) => update({ method: e.target.value as SmoothingMethod })}
+          >
+            {(Object.keys(SMOOTHING_LABELS) as SmoothingMethod[]).map((m) => (
+              <option key={m} value={m}>
+                {SMOOTHING_LABELS[m]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {s.method === "oneEuro" ? (
+          <>
+            <NumberField
+              label="Min cutoff (Hz) — lower is smoother"
+              value={s.oneEuro.minCutoff}
+              step={0.1}
+              onChange={(minCutoff) => update({ oneEuro: { ...s.oneEuro, minCutoff } })}
+            />
+            <NumberField
+              label="Beta — higher follows fast moves"
+              value={s.oneEuro.beta}
+              step={0.5}
+              onChange={(beta) => update({ oneEuro: { ...s.oneEuro, beta } })}
+            />
+          </>
+        ) : null}
+
+        {s.method === "kalman" ? (
+          <>
+            <NumberField
+              label="Process noise — higher follows fast moves"
+              value={s.kalman.processNoise}
+              step={0.1}
+              onChange={(processNoise) => update({ kalman: { ...s.kalman, processNoise } })}
+            />
+            <NumberField
+              label="Measurement noise — higher is smoother"
+              value={s.kalman.measurementNoise}
+              step={0.001}
+              onChange={(measurementNoise) => update({ kalman: { ...s.kalman, measurementNoise } })}
+            />
+          </>
+        ) : null}
+
+        {s.method !== "off" ? (
+          <>
+            <NumberField
+              label="Reject jumps over (frame fraction, 0 = off)"
+              value={s.outlierJump}
+              step={0.05}
+              onChange={(outlierJump) => update({ outlierJump })}
+            />
+            <NumberField
+              label="Fill dropouts up to (ms)"
+              value={s.maxGapMs}
+              step={50}
+              onChange={(maxGapMs) => update({ maxGapMs })}
+            />
+          </>
+        ) : null}
+      </div>
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 10 }}>
+        <button className="btn" type="button" onClick={() => update(DEFAULT_SMOOTHING)}>
+          Restore defaults
+        </button>
+      </div>
+      <div className="hint">
+        Turn the filter off to compare against raw landmarks. In Video mode, re-run the analysis after a change.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { createElement, type ReactElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { downloadBlob } from "../lib/exporters";
+import PrintableReport, { type PrintableReportProps } from "./PrintableReport";
+import ComparisonReport, { type ComparisonReportProps } from "./ComparisonReport";
+
+// Renders the printable documents to standalone HTML and opens or downloads them
+
+// Light, print-friendly theme; also defines the CSS variables the timeline chart uses
+const PRINT_CSS = `
+:root { --good: #16a34a; --warn: #d97706; --bad: #dc2626; --text: #111827; --muted: #4b5563;
+  --panel: #f3f4f6; --stroke: #d1d5db; --accent: #2563eb; }
+* { box-sizing: border-box; }
+body { margin: 0; font: 12px/1.45 system-ui, sans-serif; color: var(--text); background: #fff; }
+.doc { max-width: 900px; margin: 0 auto; padding: 24px; }
+h1 { font-size: 20px; margin: 0 0 10px; }
+h2 { font-size: 14px; margin: 18px 0 6px; border-bottom: 1px solid var(--stroke); padding-bottom: 3px; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; padding: 4px 6px; border: 1px solid var(--stroke); vertical-align: top; }
+th { background: var(--panel); font-weight: 600; }
+.meta th { width: 90px; }
+.summary { display: flex; gap: 10px; margin-top: 14px; flex-wrap: wrap; }
+.band { display: flex; gap: 10px; align-items: center; border: 1px solid var(--stroke); border-radius: 8px; padding: 8px 12px; }
+.bandScore { font-size: 26px; font-weight: 700; }
+.bandLow { border-color: var(--good); background: #f0fdf4; }
+.bandMedium { border-color: var(--warn); background: #fffbeb; }
+.bandHigh { border-color: var(--bad); background: #fef2f2; }
+.frame { max-width: 100%; max-height: 420px; border: 1px solid var(--stroke); }
+.cols { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; }
+.issue { border: 1px solid var(--stroke); border-radius: 6px; padding: 6px 8px; margin-bottom: 6px; break-inside: avoid; }
+.sev { font-size: 10px; padding: 1px 5px; border-radius: 4px; color: #fff; background: var(--warn); }
+.sevHIGH { background: var(--bad); }
+.note { color: var(--muted); }
+.flag td { background: #fef2f2; }
+.timeline svg { width: 100%; display: block; }
+.timelineLabel { fill: var(--muted); font-size: 11px; }
+.timelineLegend { display: flex; flex-wrap: wrap; gap: 10px; margin-top: 4px; font-size: 11px; }
+.timelineKey { display: flex; align-items: center; gap: 4px; }
+.timelineKey i { width: 10px; height: 10px; border-radius: 3px; display: inline-block; }
+.thumbs { display: grid; grid-template-columns: repeat(2, 1fr); gap: 10px; }
+.thumbs figure { margin: 0; break-inside: avoid; }
+.thumbs img { width: 100%; border: 1px solid var(--stroke); }
+footer { margin-top: 20px; }
+.compareTables { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; }
+.compareTable { break-inside: avoid; }
+.deltaGood, .issueresolved, .issueimproved { color: var(--good); font-weight: 600; }
+.deltaBad, .issuenew, .issueworse { color: var(--bad); font-weight: 600; }
+@media print {
+  .doc { padding: 0; }
+  .pageBreak { break-before: page; }
+  @page { margin: 14mm; }
+}
+`;
+
+export function printableReportHtml(props: PrintableReportProps) {
+  const title = `ErgoFit assessment${props.meta.task ? ` — ${props.meta.task}` : ""}`;
+  return printableHtml(createElement(PrintableReport, props), title);
+}
+
+export function comparisonReportHtml(props: ComparisonReportProps) {
+  return printableHtml(createElement(ComparisonReport, props), "ErgoFit before/after comparison");
+}
+
+function printableHtml(element: ReactElement, title: string) {
+  const body = renderToStaticMarkup(element);
+  return `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>${PRINT_CSS}</style></head><body>${body}</body></html>`;
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/[&<>"]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]!);
+}
+
+// Opens the report in a new window and starts the print dialog (Save as PDF works offline).
+// The window is opened before awaiting `props` so popup blockers still see the click.
+// If `props` rejects, the blank window is closed again and the error rethrown for the caller.
+export async function openPrintableReport(props: PrintableReportProps | Promise<PrintableReportProps>) {
+  const win = window.open("", "_blank");
+  let data: PrintableReportProps;
+  try {
+    data = await props;
+  } catch (e) {
+    win?.close();
+    throw e;
+  }
+  printDocument(win, printableReportHtml(data), "ergofit-assessment");
+}
+
+export function openPrintableComparison(props: ComparisonReportProps) {
+  printDocument(window.open("", "_blank"), comparisonReportHtml(props), "ergofit-comparison");
+}
+
+// Without a window (popup blocked) the HTML is downloaded instead
+function printDocument(win: Window | null, html: string, fileBase: string) {
+  if (!win) {
+    downloadBlob(html, `${fileBase}-${Date.now()}.html`, "text/html");
+    return;
+  }
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+
+  // Some browsers never fire onload for document.write, so fall back to a timer
+  let printed = false;
+  const print = () => {
+    if (printed) return;
+    printed = true;
+    win.print();
+  };
+  win.onload = print;
+  setTimeout(print, 500);
+}
+
+export function downloadHtmlReport(props: PrintableReportProps) {
+  downloadBlob(printableReportHtml(props), `ergofit-assessment-${Date.now()}.html`, "text/html");
+}
@@ -1,4 +1,5 @@
 import type { PoseLandmarkerResult } from "@mediapipe/tasks-vision";
+import { classifyView, VIEW_WEIGHTS, type CameraView } from "./cameraView";
 
 export type ActionLabel =
   | "No person"
@@ -32,32 +33,39 @@ function dist(a: Pt, b: Pt) {
   return Math.sqrt(dx * dx + dy * dy);
 }
 
-/** --------- STATE (video/live only) ---------- */
-let prevTime = 0;
-let prevHipY: number | null = null;
-
-let prevHandsDistNorm = 1;
-let lastClapMs = 0;
-let clapEvents: number[] = [];
-
-let stableLabel: ActionLabel = "Holding / Static";
-let stableScore = 0;
-let lastStableMs = 0;
-
-export function resetActionState() {
-  const now = performance.now();
-  prevTime = now;
-  prevHipY = null;
-  prevHandsDistNorm = 1;
-  lastClapMs = 0;
-  clapEvents = [];
-  stableLabel = "Holding / Static";
-  stableScore = 0;
-  lastStableMs = now;
+/** --------- STATE (video/live only, owned by an AnalysisSession) ---------- */
+export type ActionState = {
+  prevTime: number;
+  prevHipY: number | null;
+  prevHandsDistNorm: number;
+  lastClapMs: number;
+  clapEvents: number[];
+  stableLabel: ActionLabel;
+  stableScore: number;
+  lastStableMs: number;
+};
+
+export function createActionState(nowMs = 0): ActionState {
+  return {
+    prevTime: nowMs,
+    prevHipY: null,
+    prevHandsDistNorm: 1,
+    lastClapMs: -Infinity,
+    clapEvents: [],
+    stableLabel: "Holding / Static",
+    stableScore: 0,
+    lastStableMs: nowMs,
+  };
 }
 
 /** --------- STATIC IMAGE ACTION (no clap/lift dynamics) ---------- */
-export function detectActionImage(res: PoseLandmarkerResult | null): ActionResult {
+// Shoulder/hip width mismatch only means twisting when the camera faces the body
+function twistWeight(res: PoseLandmarkerResult | null, view?: CameraView) {
+  const v = view ?? classifyView(res)?.view;
+  return v ? VIEW_WEIGHTS[v].twist : 1;
+}
+
+export function detectActionImage(res: PoseLandmarkerResult | null, view?: CameraView): ActionResult {
   const lm = res?.landmarks?.[0];
   if (!lm) return { label: "No person", confidence: 0 };
 
@@ -84,7 +92,7 @@ export function detectActionImage(res: PoseLandmarkerResult | null): ActionResul
 
   const scoreOverhead = overhead ? clamp01((reachNorm - 1.3) / 1.2) : 0;
   const scoreBend = clamp01((trunkLeanNorm - 2.2) / 1.0);
-  const scoreTwist = clamp01((twistNorm - 0.12) / 0.20);
+  const scoreTwist = clamp01((twistNorm - 0.12) / 0.20) * twistWeight(res, view);
   const scoreReach = clamp01((reachNorm - 1.6) / 1.2);
   const scoreStatic = clamp01(0.7 * (1 - scoreReach) + 0.3);
 
@@ -105,12 +113,17 @@ export function detectActionImage(res: PoseLandmarkerResult | null): ActionResul
 }
 
 /** --------- VIDEO/LIVE ACTION (includes clapping + lift motion) ---------- */
-export function detectActionVideo(res: PoseLandmarkerResult | null): ActionResult {
+// `now` is the frame timestamp in ms (e.g. video.currentTime * 1000), not wall clock
+export function detectActionVideo(
+  res: PoseLandmarkerResult | null,
+  st: ActionState,
+  now: number,
+  view?: CameraView
+): ActionResult {
   const lm = res?.landmarks?.[0];
-  const now = performance.now();
 
   if (!lm) {
-    resetActionState();
+    Object.assign(st, createActionState(now));
     return { label: "No person", confidence: 0 };
   }
 
@@ -119,7 +132,7 @@ export function detectActionVideo(res: PoseLandmarkerResult | null): ActionResul
   const Lw = lm[15], Rw = lm[16];
 
   if (!Ls || !Rs || !Lh || !Rh || !Lw || !Rw) {
-    return stabilize({ label: "Holding / Static", confidence: 0.35, notes: "Landmarks incomplete" }, now);
+    return stabilize(st, { label: "Holding / Static", confidence: 0.35, notes: "Landmarks incomplete" }, now);
   }
 
   const shoulderWidth = Math.max(Math.abs(Rs.x - Ls.x), 1e-4);
@@ -137,14 +150,14 @@ export function detectActionVideo(res: PoseLandmarkerResult | null): ActionResul
   const twistNorm = Math.abs(shoulderWidth - hipWidth) / shoulderWidth;
 
   // dynamics
-  const dt = Math.max((now - prevTime) / 1000, 0.016);
-  const hipVel = prevHipY === null ? 0 : (prevHipY - hipMid.y) / dt;
-  prevHipY = hipMid.y;
-  prevTime = now;
+  const dt = Math.max((now - st.prevTime) / 1000, 0.016);
+  const hipVel = st.prevHipY === null ? 0 : (st.prevHipY - hipMid.y) / dt;
+  st.prevHipY = hipMid.y;
+  st.prevTime = now;
 
   // clap (event-based)
-  const dHands = (prevHandsDistNorm - handsDistNorm) / dt;
-  prevHandsDistNorm = handsDistNorm;
+  const dHands = (st.prevHandsDistNorm - handsDistNorm) / dt;
+  st.prevHandsDistNorm = handsDistNorm;
 
   const CONTACT_T = 0.65;
   const APPROACH_V = 1.8;
@@ -152,18 +165,18 @@ export function detectActionVideo(res: PoseLandmarkerResult | null): ActionResul
   const contact = handsDistNorm < CONTACT_T;
   const fastApproach = dHands > APPROACH_V;
 
-  if (contact && fastApproach && now - lastClapMs > 180) {
-    lastClapMs = now;
-    clapEvents.push(now);
+  if (contact && fastApproach && now - st.lastClapMs > 180) {
+    st.lastClapMs = now;
+    st.clapEvents.push(now);
   }
-  clapEvents = clapEvents.filter((t) => now - t < 1200);
+  st.clapEvents = st.clapEvents.filter((t) => now - t < 1200);
 
-  const scoreClap = clapEvents.length >= 2 ? clamp01(0.65 + (clapEvents.length - 2) * 0.15) : 0;
+  const scoreClap = st.clapEvents.length >= 2 ? clamp01(0.65 + (st.clapEvents.length - 2) * 0.15) : 0;
 
   // scores
   const scoreOverhead = overhead ? clamp01((reachNorm - 1.3) / 1.2) : 0;
   const scoreBend = clamp01((trunkLeanNorm - 2.2) / 1.0);
-  const scoreTwist = clamp01((twistNorm - 0.12) / 0.20);
+  const scoreTwist = clamp01((twistNorm - 0.12) / 0.20) * twistWeight(res, view);
   const scoreReach = clamp01((reachNorm - 1.6) / 1.2);
   const scoreLift = clamp01((hipVel - 0.25) / 0.6) * clamp01((trunkLeanNorm - 1.7) / 1.2);
 
@@ -186,29 +199,29 @@ export function detectActionVideo(res: PoseLandmarkerResult | null): ActionResul
     notes: best.notes,
   };
 
-  return stabilize(out, now);
+  return stabilize(st, out, now);
 }
 
-function stabilize(next: ActionResult, now: number): ActionResult {
+function stabilize(st: ActionState, next: ActionResult, now: number): ActionResult {
   const HOLD_MS = 300;
   const SWITCH_MARGIN = 0.12;
 
-  if (now - lastStableMs < HOLD_MS) {
-    if (next.label === stableLabel) {
-      stableScore = 0.7 * stableScore + 0.3 * next.confidence;
-      return { ...next, confidence: Math.max(next.confidence, stableScore) };
+  if (now - st.lastStableMs < HOLD_MS) {
+    if (next.label === st.stableLabel) {
+      st.stableScore = 0.7 * st.stableScore + 0.3 * next.confidence;
+      return { ...next, confidence: Math.max(next.confidence, st.stableScore) };
     }
-    if (next.confidence > stableScore + SWITCH_MARGIN) {
-      stableLabel = next.label;
-      stableScore = next.confidence;
-      lastStableMs = now;
+    if (next.confidence > st.stableScore + SWITCH_MARGIN) {
+      st.stableLabel = next.label;
+      st.stableScore = next.confidence;
+      st.lastStableMs = now;
       return next;
     }
-    return { label: stableLabel, confidence: stableScore, notes: "Stabilized" };
+    return { label: st.stableLabel, confidence: st.stableScore, notes: "Stabilized" };
   }
 
-  stableLabel = next.label;
-  stableScore = next.confidence;
-  lastStableMs = now;
+  st.stableLabel = next.label;
+  st.stableScore = next.confidence;
+  st.lastStableMs = now;
   return next;
 }
@@ -0,0 +1,182 @@
+import { RULE_IDS, type RuleId } from "./ruleProfiles";
+import type { PostureIssue } from "./poseMath";
+import { appendLog, readLog, removeStorage, storedSetting } from "./storage";
+import { showNotification } from "./notifications";
+
+// Live-mode posture alerts: fires when a HIGH issue is held for a while
+
+export type AlertChannel = "sound" | "notification" | "flash";
+
+export type AlertSettings = {
+  enabled: boolean;
+  sustainSeconds: number;       // how long a HIGH issue must persist before alerting
+  cooldownSeconds: number;      // minimum gap between alerts for the same issue
+  channels: Record<AlertChannel, boolean>;
+  issues: Record<RuleId, boolean>;
+  quietHours: { enabled: boolean; start: string; end: string };   // "HH:MM", may wrap midnight
+};
+
+export type AlertEvent = {
+  at: string;                   // ISO timestamp
+  issueId: string;
+  title: string;
+  heldSec: number;
+  channels: AlertChannel[];
+};
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  enabled: true,
+  sustainSeconds: 30,
+  cooldownSeconds: 300,
+  channels: { sound: true, notification: false, flash: true },
+  issues: { "neck-tilt": true, "shoulder-slope": true, reach: true, "left-knee": false, "right-knee": false },
+  quietHours: { enabled: false, start: "12:00", end: "13:00" },
+};
+
+// Brief detection dropouts (a missed frame, a turned head) don't restart the timer
+const DROPOUT_GRACE_MS = 1500;
+const LOG_LIMIT = 500;
+
+/** --------- SETTINGS + LOG (localStorage) ---------- */
+const SETTINGS_KEY = "ergofit.alertSettings";
+const LOG_KEY = "ergofit.alertLog";
+
+const settingsStore = storedSetting<AlertSettings>(SETTINGS_KEY, (stored: Partial<AlertSettings>) => ({
+  ...DEFAULT_ALERT_SETTINGS,
+  ...stored,
+  channels: { ...DEFAULT_ALERT_SETTINGS.channels, ...stored.channels },
+  issues: { ...DEFAULT_ALERT_SETTINGS.issues, ...stored.issues },
+  quietHours: { ...DEFAULT_ALERT_SETTINGS.quietHours, ...stored.quietHours },
+}));
+
+export function alertSettings(): AlertSettings {
+  return settingsStore.get();
+}
+
+export function saveAlertSettings(settings: AlertSettings) {
+  settingsStore.save(settings);
+}
+
+export function alertLog(): AlertEvent[] {
+  return readLog<AlertEvent>(LOG_KEY);
+}
+
+export function appendAlertLog(event: AlertEvent) {
+  appendLog(LOG_KEY, event, LOG_LIMIT);
+}
+
+export function clearAlertLog() {
+  removeStorage(LOG_KEY);
+}
+
+/** --------- ENGINE ---------- */
+
+function minutesOfDay(hhmm: string) {
+  const [h, m] = hhmm.split(":").map(Number);
+  return (h || 0) * 60 + (m || 0);
+}
+
+export function inQuietHours(settings: AlertSettings, date = new Date()) {
+  const q = settings.quietHours;
+  if (!q.enabled) return false;
+  const now = date.getHours() * 60 + date.getMinutes();
+  const start = minutesOfDay(q.start);
+  const end = minutesOfDay(q.end);
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+}
+
+export type AlertEngine = ReturnType<typeof createAlertEngine>;
+
+/**
+ * Tracks how long each HIGH issue has been held and returns the alerts due at
+ * `nowMs` (a monotonic clock, e.g. performance.now()). Settings are read on
+ * every update so edits apply without restarting.
+ */
+export function createAlertEngine(getSettings: () => AlertSettings = alertSettings) {
+  const onset = new Map<string, number>();      // issue id → first frame held
+  const lastSeen = new Map<string, number>();
+  const lastFired = new Map<string, number>();
+  let snoozeUntil = -Infinity;
+
+  function update(issues: PostureIssue[] | null | undefined, nowMs: number, date = new Date()): AlertEvent[] {
+    const s = getSettings();
+
+    for (const it of issues ?? []) {
+      if (it.severity !== "HIGH") continue;
+      if (!onset.has(it.id)) onset.set(it.id, nowMs);
+      lastSeen.set(it.id, nowMs);
+    }
+    for (const [id, seen] of lastSeen) {
+      if (nowMs - seen > DROPOUT_GRACE_MS) {
+        onset.delete(id);
+        lastSeen.delete(id);
+      }
+    }
+
+    if (!s.enabled || nowMs < snoozeUntil || inQuietHours(s, date)) return [];
+
+    const channels = (Object.keys(s.channels) as AlertChannel[]).filter((c) => s.channels[c]);
+    const due: AlertEvent[] = [];
+    for (const [id, start] of onset) {
+      if ((RULE_IDS as string[]).includes(id) && !s.issues[id as RuleId]) continue;
+      const heldSec = (nowMs - start) / 1000;
+      if (heldSec < s.sustainSeconds) continue;
+      if (nowMs - (lastFired.get(id) ?? -Infinity) < s.cooldownSeconds * 1000) continue;
+
+      lastFired.set(id, nowMs);
+      due.push({
+        at: date.toISOString(),
+        issueId: id,
+        title: issues?.find((i) => i.id === id)?.title ?? id,
+        heldSec: Math.round(heldSec),
+        channels,
+      });
+    }
+    return due;
+  }
+
+  return {
+    update,
+    snooze(minutes: number, nowMs: number) {
+      snoozeUntil = nowMs + minutes * 60_000;
+    },
+    unsnooze() {
+      snoozeUntil = -Infinity;
+    },
+    snoozedUntil: () => snoozeUntil,
+    reset() {
+      onset.clear();
+      lastSeen.clear();
+      lastFired.clear();
+      snoozeUntil = -Infinity;
+    },
+  };
+}
+
+/** --------- CUES ---------- */
+let audio: AudioContext | null = null;
+
+// Two short beeps, synthesized so no audio asset is needed offline
+export function playAlertSound() {
+  try {
+    audio ??= new AudioContext();
+    const ctx = audio;
+    if (ctx.state === "suspended") void ctx.resume();
+    for (const offset of [0, 0.25]) {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.frequency.value = 880;
+      gain.gain.setValueAtTime(0.2, ctx.currentTime + offset);
+      gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + offset + 0.18);
+      osc.connect(gain).connect(ctx.destination);
+      osc.start(ctx.currentTime + offset);
+      osc.stop(ctx.currentTime + offset + 0.2);
+    }
+  } catch {
+    // audio unavailable
+  }
+}
+
+export function showAlertNotification(event: AlertEvent) {
+  showNotification("ErgoFit posture alert", { body: `${event.title} for ${event.heldSec}s`, tag: `ergofit-${event.issueId}` });
+}
@@ -0,0 +1,78 @@
+import type { PoseLandmarkerResult } from "@mediapipe/tasks-vision";
+import {
+  createActionState,
+  detectActionVideo,
+  type ActionResult,
+  type ActionState,
+} from "./actionDetector";
+import { createViewTracker, type CameraView, type ViewResult, type ViewSetting, type ViewTracker } from "./cameraView";
+import { createForceState, estimateForceLevel, type ForceState } from "./forceEstimator";
+import { createLandmarkSmoother } from "./landmarkSmoothing";
+import { updateMotion, type MotionMap } from "./motionAnalysis";
+import { createPoseTracker, type PoseTracker, type TrackerOptions } from "./poseTracker";
+
+type PersonState = {
+  action: ActionState;
+  force: ForceState;
+  motion: MotionMap;
+  view: ViewTracker;
+};
+
+/**
+ * Owns all temporal analysis state (landmark smoothing, camera view, action dynamics,
+ * force velocity, motion, person tracking) for one video or live stream. Every call
+ * takes the frame timestamp explicitly, so a given video always produces the
+ * same results and several sessions can run side by side.
+ */
+export type AnalysisSession = {
+  tracker: PoseTracker;
+  // Raw detection → smoothed landmarks; run before any of the analyzers below
+  smooth: (res: PoseLandmarkerResult | null, tMs: number, personId?: number) => PoseLandmarkerResult | null;
+  // Camera view with hysteresis, for ReportOptions.trackedView; `setting` overrides it
+  view: (res: PoseLandmarkerResult | null, tMs: number, setting?: ViewSetting, personId?: number) => ViewResult | null;
+  // `view` (usually the report's) scales view-dependent cues; auto-detected when omitted
+  detectAction: (res: PoseLandmarkerResult | null, tMs: number, personId?: number, view?: CameraView) => ActionResult;
+  estimateForce: (
+    curr: { x: number; y: number } | null,
+    leverScore: number,
+    tMs: number,
+    personId?: number
+  ) => { level: "Low" | "Medium" | "High"; value: number };
+  updateMotion: (
+    key: string,
+    curr: { x: number; y: number },
+    tMs: number,
+    personId?: number
+  ) => { velocity: number; acceleration: number };
+  reset: () => void;
+};
+
+export function createAnalysisSession(trackerOptions?: TrackerOptions): AnalysisSession {
+  const persons = new Map<number, PersonState>();
+  const tracker = createPoseTracker(trackerOptions);
+  const smoother = createLandmarkSmoother();
+
+  function person(id: number, tMs: number) {
+    let st = persons.get(id);
+    if (!st) {
+      st = { action: createActionState(tMs), force: createForceState(), motion: new Map(), view: createViewTracker() };
+      persons.set(id, st);
+    }
+    return st;
+  }
+
+  return {
+    tracker,
+    smooth: smoother.apply,
+    view: (res, tMs, setting, personId = 0) => person(personId, tMs).view.update(res, tMs, setting),
+    detectAction: (res, tMs, personId = 0, view) => detectActionVideo(res, person(personId, tMs).action, tMs, view),
+    estimateForce: (curr, leverScore, tMs, personId = 0) =>
+      estimateForceLevel(curr, leverScore, person(personId, tMs).force, tMs),
+    updateMotion: (key, curr, tMs, personId = 0) => updateMotion(person(personId, tMs).motion, key, curr, tMs),
+    reset: () => {
+      persons.clear();
+      tracker.reset();
+      smoother.reset();
+    },
+  };
+}
@@ -0,0 +1,28 @@
+// Interval timer that keeps firing while the tab is hidden. requestAnimationFrame stops
+// in background tabs and chained page timers get clamped to once a minute; timers
+// inside a worker are not throttled that hard.
+
+const WORKER_SRC = "let id = 0; onmessage = (e) => { clearInterval(id); if (e.data > 0) id = setInterval(() => postMessage(0), e.data); };";
+
+export function createTicker(intervalMs: number, onTick: () => void) {
+  let worker: Worker | null = null;
+  let url: string | null = null;
+  let timer = 0;
+
+  try {
+    url = URL.createObjectURL(new Blob([WORKER_SRC], { type: "text/javascript" }));
+    worker = new Worker(url);
+    worker.onmessage = () => onTick();
+    worker.postMessage(intervalMs);
+  } catch {
+    timer = window.setInterval(onTick, intervalMs);
+  }
+
+  return {
+    stop() {
+      worker?.terminate();
+      if (url) URL.revokeObjectURL(url);
+      window.clearInterval(timer);
+    },
+  };
+}
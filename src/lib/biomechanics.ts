@@ -0,0 +1,174 @@
+import { KP, bodyAxes, dot, mid, norm, scale, sub, type GeometryBasis, type PoseFrame, type Vec3 } from "./geometry";
+import { DEFAULT_BODY_MASS_KG, type Calibration } from "./calibration";
+
+// Static biomechanical model: segment weights acting at their centres of mass
+// (Winter, Biomechanics and Motor Control of Human Movement) plus a load in the hands
+
+export type BodyInputs = {
+  bodyMassKg?: number;          // defaults to the calibration's, then 75 kg
+  statureCm?: number;           // rescales world landmarks when no calibration is active
+  handLoadKg?: number;          // total load held in both hands
+};
+
+export type BiomechLevel = "Low" | "Medium" | "High";
+
+export type Biomechanics = {
+  basis: GeometryBasis;
+  scaleSource: "model" | "calibration" | "stature";   // what sets the metres
+  bodyMassKg: number;
+  handLoadKg: number;
+  l5s1MomentNm: number;         // flexion (+) / extension (−) moment at L5/S1
+  compressionN: number;         // estimated L5/S1 disc compression
+  compressionLevel: BiomechLevel;
+  shoulderMomentNm: { left: number; right: number };
+  shoulderStrengthPct: number;  // worse shoulder, % of mean flexion strength
+  shoulderLevel: BiomechLevel;
+  level: BiomechLevel;
+};
+
+const G = 9.81;
+
+// Mass as a fraction of body mass; COM as a fraction of segment length from the proximal joint
+const UPPER_ARM = { mass: 0.028, com: 0.436 };
+const FOREARM = { mass: 0.016, com: 0.43 };
+const HAND = { mass: 0.006, com: 0.506 };
+const HEAD_NECK = { mass: 0.081 };            // COM taken at the ear midpoint
+const TRUNK = { mass: 0.355, com: 0.6 };      // thorax + abdomen, from L5/S1 towards the shoulders
+
+// L5/S1 sits a little above the hip joint centres on the hip → shoulder line
+const L5S1_ALONG_TRUNK = 0.15;
+// Hip joint → shoulder height is about 29% of stature (Drillis & Contini)
+const TRUNK_STATURE_RATIO = 0.288;
+// Erector spinae moment arm about the disc
+const ERECTOR_ARM_M = 0.05;
+
+// NIOSH (1981) disc compression limits
+export const COMPRESSION_ACTION_LIMIT_N = 3400;
+export const COMPRESSION_MAX_LIMIT_N = 6400;
+
+// Mean shoulder flexion strength (female population, so conservative for most workers);
+// static effort above ~15% of maximum is fatiguing when sustained
+export const SHOULDER_STRENGTH_NM = 40;
+const SHOULDER_PCT_MEDIUM = 15;
+const SHOULDER_PCT_HIGH = 30;
+
+const LEVEL_RANK: Record<BiomechLevel, number> = { Low: 0, Medium: 1, High: 2 };
+
+// Horizontal length (image points have z = 0)
+export function horizontal(v: Vec3) {
+  return Math.hypot(v.x, v.z);
+}
+
+function along(a: Vec3, b: Vec3, t: number) {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, z: a.z + (b.z - a.z) * t };
+}
+
+// Frame coordinates → metres. Image geometry needs a calibrated camera.
+export function frameToMetres(frame: PoseFrame, calibration: Calibration | null, statureCm?: number) {
+  if (frame.basis === "image") {
+    if (!calibration) return null;
+    const k = calibration.metersPerUnit;
+    const aspect = calibration.aspect;
+    return { source: "calibration" as const, toM: (p: Vec3) => ({ x: p.x * aspect * k, y: p.y * k, z: 0 }) };
+  }
+
+  let k = 1;
+  let source: Biomechanics["scaleSource"] = "model";
+  if (calibration) {
+    k = calibration.worldScale;
+    source = "calibration";
+  } else if (statureCm) {
+    // World landmarks come out at the model's average body size
+    const p = frame.points;
+    const trunk = norm(sub(mid(p[KP.LEFT_SHOULDER]!, p[KP.RIGHT_SHOULDER]!), mid(p[KP.LEFT_HIP]!, p[KP.RIGHT_HIP]!)));
+    if (trunk > 0.1) {
+      k = (TRUNK_STATURE_RATIO * statureCm) / 100 / trunk;
+      source = "stature";
+    }
+  }
+  return { source, toM: (p: Vec3) => scale(p, k) };
+}
+
+/**
+ * L5/S1 and shoulder gravity moments for one frame, with disc compression from a
+ * single-muscle equivalent (erector spinae at 5 cm). Needs shoulders, hips and wrists;
+ * returns null for uncalibrated 2D image geometry.
+ */
+export function estimateBiomechanics(
+  frame: PoseFrame,
+  calibration: Calibration | null,
+  inputs: BodyInputs = {}
+): Biomechanics | null {
+  const req = [KP.LEFT_SHOULDER, KP.RIGHT_SHOULDER, KP.LEFT_HIP, KP.RIGHT_HIP, KP.LEFT_WRIST, KP.RIGHT_WRIST];
+  if (req.some((i) => !frame.points[i])) return null;
+
+  const s = frameToMetres(frame, calibration, inputs.statureCm ?? calibration?.statureCm);
+  if (!s) return null;
+  const p = frame.points.map((pt) => (pt ? s.toM(pt) : undefined));
+  const axes = bodyAxes({ ...frame, points: p });
+  if (!axes) return null;
+
+  const bodyMassKg = inputs.bodyMassKg || calibration?.bodyMassKg || DEFAULT_BODY_MASS_KG;
+  const handLoadKg = Math.max(0, inputs.handLoadKg ?? 0);
+  const weight = (fraction: number) => fraction * bodyMassKg * G;
+
+  const l5s1 = along(axes.hipMid, axes.shoulderMid, L5S1_ALONG_TRUNK);
+  const flexionArm = (at: Vec3) => dot(sub(at, l5s1), axes.forward);
+
+  // Arm segments for one side, with half the hand load
+  const arm = (S: number, E: number, W: number, I: number) => {
+    const shoulder = p[S]!;
+    const wrist = p[W]!;
+    const elbow = p[E] ?? mid(shoulder, wrist);
+    const hand = p[I] ? along(wrist, p[I]!, HAND.com) : wrist;
+    const forces: [Vec3, number][] = [
+      [along(shoulder, elbow, UPPER_ARM.com), weight(UPPER_ARM.mass)],
+      [along(elbow, wrist, FOREARM.com), weight(FOREARM.mass)],
+      [hand, weight(HAND.mass) + (handLoadKg / 2) * G],
+    ];
+    const shoulderMoment = forces.reduce((m, [at, f]) => m + f * horizontal(sub(at, shoulder)), 0);
+    const l5s1Moment = forces.reduce((m, [at, f]) => m + f * flexionArm(at), 0);
+    return { shoulderMoment, l5s1Moment };
+  };
+
+  const left = arm(KP.LEFT_SHOULDER, KP.LEFT_ELBOW, KP.LEFT_WRIST, KP.LEFT_INDEX);
+  const right = arm(KP.RIGHT_SHOULDER, KP.RIGHT_ELBOW, KP.RIGHT_WRIST, KP.RIGHT_INDEX);
+
+  const Le = p[KP.LEFT_EAR], Re = p[KP.RIGHT_EAR];
+  const head = Le && Re ? mid(Le, Re) : p[KP.NOSE] ?? axes.shoulderMid;
+
+  const l5s1MomentNm =
+    weight(TRUNK.mass) * flexionArm(along(l5s1, axes.shoulderMid, TRUNK.com)) +
+    weight(HEAD_NECK.mass) * flexionArm(head) +
+    left.l5s1Moment +
+    right.l5s1Moment;
+
+  // Muscle force balancing the flexion moment, plus the weight above L5/S1 along the trunk
+  const upperWeight =
+    weight(TRUNK.mass + HEAD_NECK.mass + 2 * (UPPER_ARM.mass + FOREARM.mass + HAND.mass)) + handLoadKg * G;
+  const compressionN =
+    Math.max(0, l5s1MomentNm) / ERECTOR_ARM_M + upperWeight * Math.max(0, dot(axes.trunkUp, axes.up));
+
+  const compressionLevel: BiomechLevel =
+    compressionN > COMPRESSION_MAX_LIMIT_N ? "High" : compressionN > COMPRESSION_ACTION_LIMIT_N ? "Medium" : "Low";
+
+  const shoulderStrengthPct = (Math.max(left.shoulderMoment, right.shoulderMoment) / SHOULDER_STRENGTH_NM) * 100;
+  const shoulderLevel: BiomechLevel =
+    shoulderStrengthPct > SHOULDER_PCT_HIGH ? "High" : shoulderStrengthPct > SHOULDER_PCT_MEDIUM ? "Medium" : "Low";
+
+  const round = (v: number, d = 1) => Math.round(v * 10 ** d) / 10 ** d;
+
+  return {
+    basis: frame.basis,
+    scaleSource: s.source,
+    bodyMassKg,
+    handLoadKg,
+    l5s1MomentNm: round(l5s1MomentNm),
+    compressionN: Math.round(compressionN),
+    compressionLevel,
+    shoulderMomentNm: { left: round(left.shoulderMoment), right: round(right.shoulderMoment) },
+    shoulderStrengthPct: Math.round(shoulderStrengthPct),
+    shoulderLevel,
+    level: LEVEL_RANK[compressionLevel] >= LEVEL_RANK[shoulderLevel] ? compressionLevel : shoulderLevel,
+  };
+}
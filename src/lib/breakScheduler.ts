@@ -0,0 +1,256 @@
+import type { NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { KP } from "./geometry";
+import type { PostureIssue } from "./poseMath";
+import { appendLog, readLog, storedSetting } from "./storage";
+import { showNotification } from "./notifications";
+
+// Microbreak reminders driven by live detection: continuous static time and accumulated
+// neck / shoulder issue time; breaks are verified from the camera
+
+export type BreakSettings = {
+  enabled: boolean;
+  staticMinutes: number;        // static ("Holding / Static") time before a break is due
+  issueMinutes: number;         // accumulated neck/shoulder issue time before a break is due
+  breakSeconds: number;         // away or in a changed pose this long to count as a break
+  snoozeMinutes: number;
+  notify: boolean;              // sound + browser notification when a break is due
+};
+
+export type BodyRegion = "neck" | "shoulders" | "upperBack" | "legs" | "general";
+
+export type Stretch = { id: string; region: BodyRegion; name: string; how: string; seconds: number };
+
+export type BreakPhase = "monitoring" | "due" | "verifying";
+
+export type BreakState = {
+  phase: BreakPhase;
+  staticSec: number;
+  issueSec: Record<BodyRegion, number>;
+  reasons: string[];            // why the break is due
+  stretches: Stretch[];         // suggested for the flagged regions
+  breakProgressSec: number;     // verifying: time away / moved so far
+  snoozedUntil: number;         // monotonic ms
+};
+
+export type BreakLogEntry = {
+  at: string;                   // ISO
+  verified: boolean;
+  method?: "away" | "moved" | "natural";
+  reasons: string[];
+};
+
+export const DEFAULT_BREAK_SETTINGS: BreakSettings = {
+  enabled: true,
+  staticMinutes: 30,
+  issueMinutes: 10,
+  breakSeconds: 30,
+  snoozeMinutes: 10,
+  notify: true,
+};
+
+// Issue id → body region it loads
+const ISSUE_REGION: Record<string, BodyRegion> = {
+  "neck-tilt": "neck",
+  "shoulder-slope": "shoulders",
+  reach: "upperBack",
+  "left-knee": "legs",
+  "right-knee": "legs",
+};
+
+// Only neck and shoulder load make a break due on their own
+const TRIGGER_REGIONS: BodyRegion[] = ["neck", "shoulders", "upperBack"];
+
+export const STRETCHES: Stretch[] = [
+  { id: "chin-tuck", region: "neck", name: "Chin tucks", how: "Glide the chin straight back, hold 3 s, repeat 8×.", seconds: 30 },
+  { id: "neck-side", region: "neck", name: "Side neck stretch", how: "Ear towards shoulder, hold 15 s each side.", seconds: 30 },
+  { id: "shoulder-rolls", region: "shoulders", name: "Shoulder rolls", how: "Roll both shoulders back slowly 10×.", seconds: 20 },
+  { id: "upper-trap", region: "shoulders", name: "Upper trapezius stretch", how: "Hand behind back, tilt head away, hold 15 s each side.", seconds: 30 },
+  { id: "doorway", region: "upperBack", name: "Doorway chest opener", how: "Forearms on a door frame, step through gently, hold 20 s.", seconds: 20 },
+  { id: "scap-squeeze", region: "upperBack", name: "Shoulder blade squeeze", how: "Squeeze shoulder blades together, hold 5 s, repeat 6×.", seconds: 30 },
+  { id: "calf-raise", region: "legs", name: "Calf raises", how: "Stand, rise onto toes 15×.", seconds: 20 },
+  { id: "stand-walk", region: "general", name: "Stand up and walk", how: "Leave the workstation for a short walk or a glass of water.", seconds: 60 },
+];
+
+const STATIC_ACTION = "Holding / Static";
+// Moving (any other action) for this long ends a static stretch; shorter moves are ignored
+const STATIC_RESET_SEC = 60;
+// Frames further apart than this (tab throttling, camera hiccup) count as this long
+const MAX_STEP_MS = 2000;
+// Mean shoulder/hip/wrist displacement (normalized image units) that counts as a changed pose
+const MOVED_DISTANCE = 0.08;
+// Verification gives up after this long
+const VERIFY_TIMEOUT_MS = 10 * 60_000;
+const LOG_LIMIT = 500;
+
+const POSE_POINTS = [KP.LEFT_SHOULDER, KP.RIGHT_SHOULDER, KP.LEFT_HIP, KP.RIGHT_HIP, KP.LEFT_WRIST, KP.RIGHT_WRIST];
+
+/** --------- SETTINGS + LOG (localStorage) ---------- */
+const SETTINGS_KEY = "ergofit.breakSettings";
+const LOG_KEY = "ergofit.breakLog";
+
+const settingsStore = storedSetting<BreakSettings>(SETTINGS_KEY, (stored) => ({ ...DEFAULT_BREAK_SETTINGS, ...stored }));
+
+export function breakSettings(): BreakSettings {
+  return settingsStore.get();
+}
+
+export function saveBreakSettings(settings: BreakSettings) {
+  settingsStore.save(settings);
+}
+
+export function breakLog(): BreakLogEntry[] {
+  return readLog<BreakLogEntry>(LOG_KEY);
+}
+
+function appendBreakLog(entry: BreakLogEntry) {
+  appendLog(LOG_KEY, entry, LOG_LIMIT);
+}
+
+/** --------- SCHEDULER ---------- */
+
+function emptyRegions(): Record<BodyRegion, number> {
+  return { neck: 0, shoulders: 0, upperBack: 0, legs: 0, general: 0 };
+}
+
+function poseDistance(a: NormalizedLandmark[], b: NormalizedLandmark[]) {
+  let sum = 0;
+  let n = 0;
+  for (const i of POSE_POINTS) {
+    if (!a[i] || !b[i]) continue;
+    sum += Math.hypot(a[i].x - b[i].x, a[i].y - b[i].y);
+    n++;
+  }
+  return n ? sum / n : Infinity;
+}
+
+// Stretches for the most loaded regions, always ending with a walk
+export function suggestStretches(issueSec: Record<BodyRegion, number>, count = 3): Stretch[] {
+  const regions = (Object.keys(issueSec) as BodyRegion[])
+    .filter((r) => r !== "general" && issueSec[r] > 0)
+    .sort((a, b) => issueSec[b] - issueSec[a]);
+  const picks = regions.flatMap((r) => STRETCHES.filter((s) => s.region === r).slice(0, 1));
+  return [...picks.slice(0, count - 1), ...STRETCHES.filter((s) => s.region === "general")];
+}
+
+export type BreakScheduler = ReturnType<typeof createBreakScheduler>;
+
+/**
+ * Feed one live frame per `update` (monotonic `nowMs`). A break becomes due after
+ * enough static or neck/shoulder issue time; `startBreak` then waits until the person
+ * has been away, or in a clearly different pose, for `breakSeconds`.
+ */
+export function createBreakScheduler(getSettings: () => BreakSettings = breakSettings) {
+  let phase: BreakPhase = "monitoring";
+  let staticSec = 0;                            // continuous static time (see STATIC_RESET_SEC)
+  let movingSec = 0;                            // continuous non-static time
+  let issueSec = emptyRegions();
+  let reasons: string[] = [];
+  let lastMs: number | null = null;
+  let awaySec = 0;                              // continuous time without a person
+  let snoozedUntil = -Infinity;
+  let verify: { startMs: number; baseline: NormalizedLandmark[] | null; progressSec: number } | null = null;
+  let lastLandmarks: NormalizedLandmark[] | null = null;
+
+  function resetCounters() {
+    staticSec = 0;
+    movingSec = 0;
+    issueSec = emptyRegions();
+    reasons = [];
+    verify = null;
+    phase = "monitoring";
+  }
+
+  function finishBreak(verified: boolean, method?: BreakLogEntry["method"]) {
+    appendBreakLog({ at: new Date().toISOString(), verified, method, reasons });
+    resetCounters();
+  }
+
+  function state(): BreakState {
+    return {
+      phase,
+      staticSec,
+      issueSec: { ...issueSec },
+      reasons,
+      stretches: phase === "monitoring" ? [] : suggestStretches(issueSec),
+      breakProgressSec: verify?.progressSec ?? 0,
+      snoozedUntil,
+    };
+  }
+
+  // Returns true when a break has just become due
+  function update(
+    frame: { landmarks?: NormalizedLandmark[] | null; action?: string; issues?: PostureIssue[] | null },
+    nowMs: number
+  ): boolean {
+    const s = getSettings();
+    const dt = lastMs === null ? 0 : Math.min(Math.max(nowMs - lastMs, 0), MAX_STEP_MS) / 1000;
+    lastMs = nowMs;
+    const person = !!frame.landmarks?.length;
+    if (person) lastLandmarks = frame.landmarks!;
+
+    if (phase === "verifying" && verify) {
+      const moved = person && verify.baseline && poseDistance(frame.landmarks!, verify.baseline) > MOVED_DISTANCE;
+      if (!person || moved) verify.progressSec += dt;
+      if (verify.progressSec >= s.breakSeconds) finishBreak(true, person ? "moved" : "away");
+      else if (nowMs - verify.startMs > VERIFY_TIMEOUT_MS) finishBreak(false);
+      return false;
+    }
+
+    // Leaving the camera for a full break length counts even without a prompt
+    awaySec = person ? 0 : awaySec + dt;
+    const loadedAny = staticSec > 0 || Object.values(issueSec).some((v) => v > 0);
+    if (awaySec >= s.breakSeconds && (loadedAny || phase === "due")) {
+      finishBreak(true, "natural");
+      return false;
+    }
+    if (!person) return false;
+
+    if (frame.action === STATIC_ACTION) {
+      staticSec += dt;
+      movingSec = 0;
+    } else {
+      movingSec += dt;
+      if (movingSec >= STATIC_RESET_SEC) staticSec = 0;
+    }
+    const regions = new Set((frame.issues ?? []).map((i) => ISSUE_REGION[i.id]).filter(Boolean));
+    for (const r of regions) issueSec[r] += dt;
+
+    if (!s.enabled || phase !== "monitoring" || nowMs < snoozedUntil) return false;
+
+    const due: string[] = [];
+    if (staticSec >= s.staticMinutes * 60) due.push(`${Math.round(staticSec / 60)} min of static posture`);
+    const loaded = TRIGGER_REGIONS.reduce((a, r) => a + issueSec[r], 0);
+    if (loaded >= s.issueMinutes * 60) due.push(`${Math.round(loaded / 60)} min of neck/shoulder strain`);
+    if (!due.length) return false;
+
+    phase = "due";
+    reasons = due;
+    return true;
+  }
+
+  return {
+    update,
+    state,
+    // User confirmed they are taking the break
+    startBreak(nowMs: number) {
+      verify = { startMs: nowMs, baseline: lastLandmarks, progressSec: 0 };
+      phase = "verifying";
+    },
+    snooze(nowMs: number) {
+      snoozedUntil = nowMs + getSettings().snoozeMinutes * 60_000;
+      phase = "monitoring";
+      verify = null;
+    },
+    reset() {
+      resetCounters();
+      lastMs = null;
+      awaySec = 0;
+      snoozedUntil = -Infinity;
+      lastLandmarks = null;
+    },
+  };
+}
+
+export function showBreakNotification(reasons: string[]) {
+  showNotification("ErgoFit: time for a break", { body: reasons.join(" · "), tag: "ergofit-break" });
+}
@@ -0,0 +1,154 @@
+import type { PoseLandmarkerResult } from "@mediapipe/tasks-vision";
+import { KP } from "./geometry";
+import { storedSetting } from "./storage";
+
+// Camera calibration: converts normalized image distances (and model-scaled world
+// landmarks) into real units for a fixed camera at a station
+
+type Pt = { x: number; y: number };
+
+export type CalibrationMethod = "height" | "reference";
+
+export type Calibration = {
+  station: string;             // camera / station name, also the storage key
+  method: CalibrationMethod;
+  metersPerUnit: number;       // metres per 1.0 of frame HEIGHT (x distances are scaled by aspect first)
+  aspect: number;              // frame width / height when calibrated
+  worldScale: number;          // correction for world landmarks (1 = model scale)
+  statureCm?: number;
+  bodyMassKg?: number;         // used for segment-mass moment estimates
+  reference?: { a: Pt; b: Pt; lengthCm: number };
+  createdAt: string;
+};
+
+// Short form stored on reports
+export type CalibrationRef = Pick<Calibration, "station" | "method" | "metersPerUnit" | "worldScale" | "bodyMassKg">;
+
+export const DEFAULT_BODY_MASS_KG = 75;
+
+// Nose sits at roughly 92% of standing stature
+const NOSE_HEIGHT_RATIO = 0.92;
+
+function floorY(points: ({ y: number } | undefined)[]) {
+  const ys = [KP.LEFT_HEEL, KP.RIGHT_HEEL, KP.LEFT_FOOT, KP.RIGHT_FOOT, KP.LEFT_ANKLE, KP.RIGHT_ANKLE]
+    .map((i) => points[i]?.y)
+    .filter((y): y is number => Number.isFinite(y));
+  return ys.length ? Math.max(...ys) : null;
+}
+
+/**
+ * Calibrates from a person of known height standing upright in the frame.
+ * Returns null when the nose or feet are not detected.
+ */
+export function calibrateFromHeight(
+  res: PoseLandmarkerResult | null,
+  station: string,
+  statureCm: number,
+  aspect: number,
+  bodyMassKg?: number
+): Calibration | null {
+  const lm = res?.landmarks?.[0];
+  const nose = lm?.[KP.NOSE];
+  const floor = lm ? floorY(lm) : null;
+  if (!nose || floor === null || floor - nose.y <= 0.05) return null;
+
+  const noseHeightM = (statureCm / 100) * NOSE_HEIGHT_RATIO;
+  const metersPerUnit = noseHeightM / (floor - nose.y);
+
+  // World landmarks come out at the model's average body size; rescale to this person
+  let worldScale = 1;
+  const world = res?.worldLandmarks?.[0];
+  const wNose = world?.[KP.NOSE];
+  const wFloor = world ? floorY(world) : null;
+  if (wNose && wFloor !== null && wFloor - wNose.y > 0.3) worldScale = noseHeightM / (wFloor - wNose.y);
+
+  return {
+    station,
+    method: "height",
+    metersPerUnit,
+    aspect,
+    worldScale,
+    statureCm,
+    bodyMassKg,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// Calibrates from two marked points (normalized image coords) a known distance apart
+export function calibrateFromReference(
+  a: Pt,
+  b: Pt,
+  lengthCm: number,
+  station: string,
+  aspect: number,
+  bodyMassKg?: number
+): Calibration | null {
+  const units = Math.hypot((b.x - a.x) * aspect, b.y - a.y);
+  if (units < 1e-3 || !(lengthCm > 0)) return null;
+  return {
+    station,
+    method: "reference",
+    metersPerUnit: lengthCm / 100 / units,
+    aspect,
+    worldScale: 1,
+    bodyMassKg,
+    reference: { a, b, lengthCm },
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// Distance in metres between two normalized image points
+export function imageDistanceM(cal: Calibration, a: Pt, b: Pt) {
+  return Math.hypot((b.x - a.x) * cal.aspect, b.y - a.y) * cal.metersPerUnit;
+}
+
+export function calibrationRef(cal: Calibration): CalibrationRef {
+  const { station, method, metersPerUnit, worldScale, bodyMassKg } = cal;
+  return { station, method, metersPerUnit, worldScale, bodyMassKg };
+}
+
+/** --------- PERSISTENCE (localStorage, one entry per station) ---------- */
+const STORE_KEY = "ergofit.calibrations";
+const ACTIVE_KEY = "ergofit.activeStation";
+
+const store = storedSetting<Record<string, Calibration>>(STORE_KEY, (stored) =>
+  stored && typeof stored === "object" && !Array.isArray(stored) ? stored : {}
+);
+// The active station is stored as a plain string, not JSON
+let activeCache: string | null | undefined;
+
+function readAll(): Record<string, Calibration> {
+  return store.get();
+}
+
+export function listCalibrations(): Calibration[] {
+  return Object.values(readAll()).sort((a, b) => a.station.localeCompare(b.station));
+}
+
+export function saveCalibration(cal: Calibration) {
+  store.save({ ...readAll(), [cal.station]: cal });
+}
+
+export function deleteCalibration(station: string) {
+  const all = { ...readAll() };
+  delete all[station];
+  store.save(all);
+  if (activeStation() === station) setActiveStation(null);
+}
+
+export function activeStation(): string | null {
+  if (activeCache === undefined) activeCache = localStorage.getItem(ACTIVE_KEY);
+  return activeCache;
+}
+
+export function setActiveStation(station: string | null) {
+  activeCache = station;
+  if (station) localStorage.setItem(ACTIVE_KEY, station);
+  else localStorage.removeItem(ACTIVE_KEY);
+}
+
+// Calibration of the selected station, used by buildReport when none is passed
+export function activeCalibration(): Calibration | null {
+  const station = activeStation();
+  return station ? readAll()[station] ?? null : null;
+}
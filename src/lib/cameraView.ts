@@ -0,0 +1,162 @@
+import type { PoseLandmarkerResult } from "@mediapipe/tasks-vision";
+import { KP } from "./geometry";
+
+// Camera viewpoint relative to the body. Sagittal left = the person's left side faces the camera.
+export type CameraView = "frontal" | "sagittal-left" | "sagittal-right" | "oblique";
+
+// Manual override or automatic detection
+export type ViewSetting = "auto" | CameraView;
+
+export type ViewResult = {
+  view: CameraView;
+  source: "auto" | "manual";
+  yawDeg?: number;              // body rotation away from facing the camera, 0..90
+  confidence: number;           // 0..1 (1 for a manual view)
+};
+
+export const VIEW_LABELS: Record<CameraView, string> = {
+  frontal: "Front",
+  "sagittal-left": "Side (left)",
+  "sagittal-right": "Side (right)",
+  oblique: "Oblique",
+};
+
+// Metrics whose validity depends on the viewpoint
+export type ViewMetric = "neckTilt" | "reach" | "shoulderSlope" | "knee" | "twist";
+
+/**
+ * How far each metric can be trusted from each view (1 = valid, 0 = not measurable).
+ * Neck flexion and forward reach happen in depth for a frontal camera; shoulder height
+ * difference and shoulder/hip twist collapse when the shoulders overlap side-on.
+ */
+export const VIEW_WEIGHTS: Record<CameraView, Record<ViewMetric, number>> = {
+  frontal: { neckTilt: 0.5, reach: 0, shoulderSlope: 1, knee: 0.5, twist: 1 },
+  "sagittal-left": { neckTilt: 1, reach: 1, shoulderSlope: 0, knee: 1, twist: 0 },
+  "sagittal-right": { neckTilt: 1, reach: 1, shoulderSlope: 0, knee: 1, twist: 0 },
+  oblique: { neckTilt: 0.75, reach: 0.75, shoulderSlope: 0.75, knee: 1, twist: 0.5 },
+};
+
+const ANGLE_METRIC: Record<string, ViewMetric> = {
+  neckTilt: "neckTilt",
+  reach: "reach",
+  shoulderSlope: "shoulderSlope",
+  leftKnee: "knee",
+  rightKnee: "knee",
+};
+
+// Weight for a report angle key; angles without a view restriction get 1
+export function viewWeight(view: CameraView, angleKey: string) {
+  const metric = ANGLE_METRIC[angleKey];
+  return metric ? VIEW_WEIGHTS[view][metric] : 1;
+}
+
+// Yaw bands (degrees): below FRONTAL_MAX is frontal, above SAGITTAL_MIN is side-on
+const FRONTAL_MAX = 30;
+const SAGITTAL_MIN = 60;
+// A tracked view only changes once the yaw is this far past the band edge
+const HYSTERESIS_DEG = 5;
+// Time constant of the tracked yaw's smoothing; a longer gap restarts it
+const YAW_TAU_MS = 400;
+const YAW_GAP_MS = 1000;
+// Shoulder width / torso length of an adult seen square-on (world landmarks)
+const FRONTAL_WIDTH_RATIO = 0.75;
+
+const toDeg = (r: number) => (r * 180) / Math.PI;
+
+/**
+ * Estimates the body yaw from the shoulder and hip lines: their depth spread (z) against
+ * their horizontal spread, plus, with world landmarks, the shoulder width relative to
+ * torso length. Returns null when the torso is not visible.
+ */
+function measureYaw(res: PoseLandmarkerResult | null) {
+  const world = res?.worldLandmarks?.[0];
+  const pts = world?.length ? world : res?.landmarks?.[0];
+  if (!pts?.length) return null;
+
+  const ls = pts[KP.LEFT_SHOULDER];
+  const rs = pts[KP.RIGHT_SHOULDER];
+  const lh = pts[KP.LEFT_HIP];
+  const rh = pts[KP.RIGHT_HIP];
+  if (!ls || !rs || !lh || !rh) return null;
+
+  // Depth cue: rotation of the shoulder + hip lines out of the image plane
+  const dx = Math.abs(rs.x - ls.x) + Math.abs(rh.x - lh.x);
+  const dz = Math.abs(rs.z - ls.z) + Math.abs(rh.z - lh.z);
+  const cues = [toDeg(Math.atan2(dz, Math.max(dx, 1e-6)))];
+
+  // Width cue: shoulders look narrower the further the body turns (metric only)
+  if (world?.length) {
+    const torso = Math.hypot((ls.x + rs.x - lh.x - rh.x) / 2, (ls.y + rs.y - lh.y - rh.y) / 2);
+    if (torso > 1e-3) {
+      const ratio = Math.min(Math.abs(rs.x - ls.x) / torso / FRONTAL_WIDTH_RATIO, 1);
+      cues.push(toDeg(Math.acos(ratio)));
+    }
+  }
+  return {
+    yawDeg: cues.reduce((a, b) => a + b, 0) / cues.length,
+    // Smaller z is closer to the camera
+    leftNearer: ls.z + lh.z < rs.z + rh.z,
+  };
+}
+
+// Band for a yaw; with a previous view its edges move outwards by the hysteresis margin
+function viewFromYaw(yawDeg: number, leftNearer: boolean, previous?: CameraView): ViewResult {
+  const h = previous ? HYSTERESIS_DEG : 0;
+  const frontalMax = previous === "frontal" ? FRONTAL_MAX + h : FRONTAL_MAX - h;
+  const sagittalMin = previous?.startsWith("sagittal") ? SAGITTAL_MIN - h : SAGITTAL_MIN + h;
+  const view: CameraView =
+    yawDeg < frontalMax ? "frontal" : yawDeg > sagittalMin ? (leftNearer ? "sagittal-left" : "sagittal-right") : "oblique";
+
+  // Confidence grows with the distance from the nearest band edge
+  const margin = Math.min(Math.abs(yawDeg - frontalMax), Math.abs(yawDeg - sagittalMin));
+  return { view, source: "auto", yawDeg: Math.round(yawDeg), confidence: 0.5 + 0.5 * Math.min(margin / 15, 1) };
+}
+
+// Single-frame view estimate (photos); streams use createViewTracker
+export function classifyView(res: PoseLandmarkerResult | null): ViewResult | null {
+  const m = measureYaw(res);
+  return m ? viewFromYaw(m.yawDeg, m.leftNearer) : null;
+}
+
+export function resolveView(res: PoseLandmarkerResult | null, setting: ViewSetting = "auto"): ViewResult | null {
+  if (setting !== "auto") return { view: setting, source: "manual", confidence: 1 };
+  return classifyView(res);
+}
+
+export type ViewTracker = ReturnType<typeof createViewTracker>;
+
+/**
+ * View of one person over a video or live stream. The yaw is smoothed over time and the
+ * view only changes once it is clearly past a band edge, so a body turning near 30°/60°
+ * does not flip the view (and with it the view-gated issues) from frame to frame.
+ */
+export function createViewTracker() {
+  let yaw: number | null = null;
+  let lastMs = 0;
+  let view: CameraView | undefined;
+
+  return {
+    update(res: PoseLandmarkerResult | null, tMs: number, setting: ViewSetting = "auto"): ViewResult | null {
+      if (setting !== "auto") return resolveView(res, setting);
+      const m = measureYaw(res);
+      if (!m) return null;
+
+      const dt = tMs - lastMs;
+      if (yaw === null || dt < 0 || dt > YAW_GAP_MS) {
+        yaw = m.yawDeg;
+        view = undefined;
+      } else {
+        yaw += (m.yawDeg - yaw) * (1 - Math.exp(-dt / YAW_TAU_MS));
+      }
+      lastMs = tMs;
+
+      const result = viewFromYaw(yaw, m.leftNearer, view);
+      view = result.view;
+      return result;
+    },
+  };
+}
+
+export function viewLabel(v: ViewResult) {
+  return `${VIEW_LABELS[v.view]}${v.source === "manual" ? " (set manually)" : ` (auto, ${Math.round(v.confidence * 100)}%)`}`;
+}
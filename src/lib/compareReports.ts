@@ -0,0 +1,96 @@
+import type { IssueSeverity, PostureIssue, PostureReport } from "./poseMath";
+
+// Before/after comparison of two posture reports (e.g. a workstation change)
+
+export type MetricDelta = {
+  key: string;
+  before?: number;
+  after?: number;
+  delta?: number;        // after − before (only when both exist)
+};
+
+export type IssueChangeStatus = "resolved" | "new" | "improved" | "worse" | "unchanged";
+
+export type IssueChange = {
+  id: string;
+  title: string;
+  status: IssueChangeStatus;
+  before?: IssueSeverity;
+  after?: IssueSeverity;
+};
+
+export type ReportComparison = {
+  score: MetricDelta;
+  risk: { before?: string; after?: string };
+  rula: MetricDelta;
+  reba: MetricDelta;
+  angles: MetricDelta[];
+  issues: IssueChange[];
+  lever: MetricDelta[];
+  strainLevel: { before?: string; after?: string };
+  improved: boolean;     // score went up and no new issues appeared
+};
+
+const SEVERITY_RANK: Record<IssueSeverity, number> = { OK: 0, MILD: 1, HIGH: 2 };
+
+const LEVER_KEYS = ["strainIndex", "shoulderMomentIndex", "lowBackMomentIndex"] as const;
+
+function num(v: unknown) {
+  const n = Number(v);
+  return v === undefined || v === null || !Number.isFinite(n) ? undefined : n;
+}
+
+function delta(key: string, before: unknown, after: unknown): MetricDelta {
+  const b = num(before);
+  const a = num(after);
+  return { key, before: b, after: a, delta: b !== undefined && a !== undefined ? a - b : undefined };
+}
+
+function issueChange(before?: PostureIssue, after?: PostureIssue): IssueChange {
+  const id = (after ?? before)!.id;
+  const title = (after ?? before)!.title;
+  let status: IssueChangeStatus = "unchanged";
+  if (before && !after) status = "resolved";
+  else if (!before && after) status = "new";
+  else if (before && after) {
+    const d = SEVERITY_RANK[after.severity] - SEVERITY_RANK[before.severity];
+    status = d < 0 ? "improved" : d > 0 ? "worse" : "unchanged";
+  }
+  return { id, title, status, before: before?.severity, after: after?.severity };
+}
+
+export function compareReports(
+  before: PostureReport | null | undefined,
+  after: PostureReport | null | undefined
+): ReportComparison {
+  const bAngles: Record<string, number> = before?.angles ?? {};
+  const aAngles: Record<string, number> = after?.angles ?? {};
+  const angleKeys = [...new Set([...Object.keys(bAngles), ...Object.keys(aAngles)])];
+
+  const bIssues = new Map((before?.issues ?? []).map((i) => [i.id, i]));
+  const aIssues = new Map((after?.issues ?? []).map((i) => [i.id, i]));
+  const issueIds = [...new Set([...bIssues.keys(), ...aIssues.keys()])];
+
+  const bLever: any = before?.lever ?? {};
+  const aLever: any = after?.lever ?? {};
+
+  const issues = issueIds.map((id) => issueChange(bIssues.get(id), aIssues.get(id)));
+  const score = delta("score", before?.score, after?.score);
+
+  return {
+    score,
+    risk: { before: before?.risk, after: after?.risk },
+    rula: delta("rula", before?.rula?.score, after?.rula?.score),
+    reba: delta("reba", before?.reba?.score, after?.reba?.score),
+    angles: angleKeys.map((k) => delta(k, bAngles[k], aAngles[k])),
+    issues,
+    lever: [
+      ...LEVER_KEYS.map((k) => delta(k, bLever[k], aLever[k])),
+      delta("force", bLever.force?.value, aLever.force?.value),
+      delta("l5s1MomentNm", bLever.biomech?.l5s1MomentNm, aLever.biomech?.l5s1MomentNm),
+      delta("compressionN", bLever.biomech?.compressionN, aLever.biomech?.compressionN),
+    ],
+    strainLevel: { before: bLever.strainLevel, after: aLever.strainLevel },
+    improved: (score.delta ?? 0) > 0 && !issues.some((i) => i.status === "new" || i.status === "worse"),
+  };
+}
@@ -0,0 +1,199 @@
+import type { Landmark, NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { downloadBlob } from "./exporters";
+
+// One processed frame of a timeline
+export type CsvFrame = {
+  t: number;
+  trackId?: number;
+  report: any;
+  landmarks?: NormalizedLandmark[];
+  worldLandmarks?: Landmark[];
+};
+
+export type CsvOptions = {
+  landmarks?: boolean;   // append raw image + world landmark coordinates
+};
+
+/**
+ * Column names are part of the export format: analysts key spreadsheets on them.
+ * Only ever append new columns; never rename or reorder existing ones.
+ */
+const ANGLE_COLUMNS = [
+  "leftElbow",
+  "rightElbow",
+  "leftKnee",
+  "rightKnee",
+  "trunkFlexion",
+  "neckFlexion",
+  "leftShoulderFlexion",
+  "rightShoulderFlexion",
+  "leftShoulderAbduction",
+  "rightShoulderAbduction",
+  "neckTilt",
+  "shoulderSlope",
+  "reach",
+];
+
+const ISSUE_COLUMNS = ["neck-tilt", "shoulder-slope", "reach", "left-knee", "right-knee"];
+
+// MediaPipe pose landmark order
+const LANDMARK_NAMES = [
+  "nose",
+  "left_eye_inner",
+  "left_eye",
+  "left_eye_outer",
+  "right_eye_inner",
+  "right_eye",
+  "right_eye_outer",
+  "left_ear",
+  "right_ear",
+  "mouth_left",
+  "mouth_right",
+  "left_shoulder",
+  "right_shoulder",
+  "left_elbow",
+  "right_elbow",
+  "left_wrist",
+  "right_wrist",
+  "left_pinky",
+  "right_pinky",
+  "left_index",
+  "right_index",
+  "left_thumb",
+  "right_thumb",
+  "left_hip",
+  "right_hip",
+  "left_knee",
+  "right_knee",
+  "left_ankle",
+  "right_ankle",
+  "left_heel",
+  "right_heel",
+  "left_foot_index",
+  "right_foot_index",
+];
+
+const BASE_COLUMNS = [
+  "time_s",
+  "track_id",
+  "score",
+  "risk",
+  "basis",
+  "action",
+  "action_confidence",
+  ...ANGLE_COLUMNS.map((k) => `angle_${k}`),
+  ...ANGLE_COLUMNS.map((k) => `angle_${k}_visibility`),
+  ...ISSUE_COLUMNS.map((id) => `issue_${id}`),
+  "lever_basis",
+  "lever_shoulder_moment_index",
+  "lever_low_back_moment_index",
+  "lever_strain_index",
+  "lever_strain_level",
+  "force_level",
+  "force_value",
+  "rula_score",
+  "reba_score",
+  "length_unit",
+  "calibration_station",
+  "lever_reach_cm",
+  "lever_trunk_lean_cm",
+  "lever_shoulder_moment_nm",
+  "lever_low_back_moment_nm",
+  "biomech_l5s1_moment_nm",
+  "biomech_compression_n",
+  "biomech_compression_level",
+  "biomech_left_shoulder_moment_nm",
+  "biomech_right_shoulder_moment_nm",
+  "biomech_shoulder_strength_pct",
+  "biomech_hand_load_kg",
+  "model_variant",
+  "model_delegate",
+  "camera_view",
+  "camera_view_source",
+];
+
+const LANDMARK_COLUMNS = [
+  ...LANDMARK_NAMES.flatMap((n) => ["x", "y", "z", "visibility"].map((c) => `lm_${n}_${c}`)),
+  ...LANDMARK_NAMES.flatMap((n) => ["x", "y", "z"].map((c) => `world_${n}_${c}`)),
+];
+
+export function csvColumns(options: CsvOptions = {}) {
+  return options.landmarks ? [...BASE_COLUMNS, ...LANDMARK_COLUMNS] : BASE_COLUMNS;
+}
+
+function cell(v: unknown) {
+  if (v === undefined || v === null) return "";
+  if (typeof v === "number") return Number.isFinite(v) ? String(Math.round(v * 10000) / 10000) : "";
+  const s = String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function frameRow(f: CsvFrame, options: CsvOptions) {
+  const r = f.report ?? {};
+  const angles = r.angles ?? {};
+  const conf = r.angleConfidence ?? {};
+  const issues: any[] = r.issues ?? [];
+  const lever = r.lever ?? {};
+
+  const row: unknown[] = [
+    f.t,
+    f.trackId ?? "",
+    r.score,
+    r.risk,
+    r.basis,
+    r.action?.label,
+    r.action?.confidence,
+    ...ANGLE_COLUMNS.map((k) => angles[k]),
+    ...ANGLE_COLUMNS.map((k) => conf[k]),
+    ...ISSUE_COLUMNS.map((id) => issues.find((i) => i.id === id)?.severity ?? ""),
+    lever.basis,
+    lever.shoulderMomentIndex,
+    lever.lowBackMomentIndex,
+    lever.strainIndex,
+    lever.strainLevel,
+    lever.force?.level,
+    lever.force?.value,
+    r.rula?.score,
+    r.reba?.score,
+    r.lengthUnit,
+    r.calibration?.station,
+    lever.units?.reachCm,
+    lever.units?.trunkLeanCm,
+    lever.units?.shoulderMomentNm,
+    lever.units?.lowBackMomentNm,
+    lever.biomech?.l5s1MomentNm,
+    lever.biomech?.compressionN,
+    lever.biomech?.compressionLevel,
+    lever.biomech?.shoulderMomentNm.left,
+    lever.biomech?.shoulderMomentNm.right,
+    lever.biomech?.shoulderStrengthPct,
+    lever.biomech?.handLoadKg,
+    r.model?.variant,
+    r.model?.delegate,
+    r.view?.view,
+    r.view?.source,
+  ];
+
+  if (options.landmarks) {
+    for (let i = 0; i < LANDMARK_NAMES.length; i++) {
+      const p = f.landmarks?.[i];
+      row.push(p?.x, p?.y, p?.z, p?.visibility);
+    }
+    for (let i = 0; i < LANDMARK_NAMES.length; i++) {
+      const p = f.worldLandmarks?.[i];
+      row.push(p?.x, p?.y, p?.z);
+    }
+  }
+
+  return row.map(cell).join(",");
+}
+
+export function timelineToCsv(frames: CsvFrame[], options: CsvOptions = {}) {
+  const lines = [csvColumns(options).join(","), ...frames.map((f) => frameRow(f, options))];
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function downloadCsv(csv: string, name = `ergofit-timeline-${Date.now()}.csv`) {
+  // BOM so Excel opens UTF-8 (°, –) correctly
+  downloadBlob(["\uFEFF", csv], name, "text/csv;charset=utf-8");
+}
@@ -1,4 +1,5 @@
 import type { PoseLandmarkerResult } from "@mediapipe/tasks-vision";
+import { DEFAULT_MIN_VISIBILITY } from "./geometry";
 
 export function drawPoseOverlay(
   canvas: HTMLCanvasElement,
@@ -7,7 +8,8 @@ export function drawPoseOverlay(
   issues: any[] | null,
   score?: number,
   risk?: any,
-  lever?: any
+  lever?: any,
+  minVisibility = DEFAULT_MIN_VISIBILITY
 ) {
   const ctx = canvas.getContext("2d");
   if (!ctx) return;
@@ -15,13 +17,20 @@ export function drawPoseOverlay(
   const w = canvas.width;
   const h = canvas.height;
 
-  // Skeleton dots
+  // Skeleton dots (poorly visible joints as hollow amber rings)
   if (result?.landmarks?.[0]) {
     ctx.fillStyle = "#fff";
+    ctx.strokeStyle = "#fbbf24";
+    ctx.lineWidth = 2;
     for (const p of result.landmarks[0]) {
       ctx.beginPath();
-      ctx.arc(p.x * w, p.y * h, 3, 0, Math.PI * 2);
-      ctx.fill();
+      if ((p.visibility ?? 1) < minVisibility) {
+        ctx.arc(p.x * w, p.y * h, 5, 0, Math.PI * 2);
+        ctx.stroke();
+      } else {
+        ctx.arc(p.x * w, p.y * h, 3, 0, Math.PI * 2);
+        ctx.fill();
+      }
     }
   }
 
@@ -72,3 +81,39 @@ export function drawPoseOverlay(
     );
   }
 }
+
+// Colored skeleton dots + "#id" tag for every tracked person
+export function drawTrackedPoses(
+  canvas: HTMLCanvasElement,
+  tracks: { id: number; color: string; result: PoseLandmarkerResult }[],
+  selectedId?: number | null
+) {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  const w = canvas.width;
+  const h = canvas.height;
+
+  for (const t of tracks) {
+    const lm = t.result.landmarks?.[0];
+    if (!lm) continue;
+
+    ctx.fillStyle = t.color;
+    for (const p of lm) {
+      ctx.beginPath();
+      ctx.arc(p.x * w, p.y * h, t.id === selectedId ? 4 : 3, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    // Tag above the head
+    const head = lm[0] ?? lm[11];
+    if (!head) continue;
+    const x = head.x * w;
+    const y = Math.max(16, head.y * h - 24);
+    ctx.font = "bold 13px system-ui";
+    ctx.fillStyle = "rgba(0,0,0,0.65)";
+    ctx.fillRect(x - 18, y - 14, 36, 20);
+    ctx.fillStyle = t.color;
+    ctx.fillText(`#${t.id}`, x - 12, y + 1);
+  }
+}
@@ -1,23 +1,58 @@
 import type { PostureReport } from "./poseMath";
 
-export function downloadJson(report: PostureReport) {
-  const blob = new Blob([JSON.stringify(report, null, 2)], { type: "application/json" });
+// Who / where / what, printed on the assessment report and stored with saved assessments
+export type ReportMeta = {
+  assessor: string;
+  site: string;
+  task: string;
+  worker?: string;
+  station?: string;
+  notes?: string;
+  source?: string;
+};
+
+// Saves text or binary data as a file. The URL is revoked a moment later: some browsers
+// start the download only after click() returns.
+export function downloadBlob(data: BlobPart | BlobPart[], name: string, type: string) {
+  const blob = new Blob(Array.isArray(data) ? data : [data], { type });
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
   a.href = url;
-  a.download = `ergofit-report-${Date.now()}.json`;
+  a.download = name;
   a.click();
-  URL.revokeObjectURL(url);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadJson(report: PostureReport) {
+  downloadBlob(JSON.stringify(report, null, 2), `ergofit-report-${Date.now()}.json`, "application/json");
 }
 
 export function downloadCanvasPng(canvas: HTMLCanvasElement) {
   canvas.toBlob((blob) => {
-    if (!blob) return;
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `ergofit-annotated-${Date.now()}.png`;
-    a.click();
-    URL.revokeObjectURL(url);
+    if (blob) downloadBlob(blob, `ergofit-annotated-${Date.now()}.png`, "image/png");
   }, "image/png");
 }
+
+// Flattens a photo/video frame and its overlay canvas into one image (data URL)
+export function snapshotFrame(
+  source: HTMLImageElement | HTMLVideoElement | HTMLCanvasElement,
+  overlay: HTMLCanvasElement | null,
+  maxWidth = 960
+) {
+  const sw =
+    source instanceof HTMLVideoElement ? source.videoWidth : source instanceof HTMLCanvasElement ? source.width : source.naturalWidth;
+  const sh =
+    source instanceof HTMLVideoElement ? source.videoHeight : source instanceof HTMLCanvasElement ? source.height : source.naturalHeight;
+  if (!sw || !sh) return null;
+
+  const scale = Math.min(1, maxWidth / sw);
+  const c = document.createElement("canvas");
+  c.width = Math.round(sw * scale);
+  c.height = Math.round(sh * scale);
+  const ctx = c.getContext("2d");
+  if (!ctx) return null;
+
+  ctx.drawImage(source, 0, 0, c.width, c.height);
+  if (overlay && overlay.width && overlay.height) ctx.drawImage(overlay, 0, 0, c.width, c.height);
+  return c.toDataURL("image/jpeg", 0.85);
+}
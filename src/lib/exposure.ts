@@ -0,0 +1,134 @@
+// Exposure summary: how long and how often each posture issue / action occurs over a timeline
+
+export type ExposureSample = {
+  t: number;             // seconds
+  action?: string;
+  issues?: string[];     // PostureIssue ids present in this frame
+};
+
+export type ExposureOptions = {
+  staticSeconds?: number;  // a continuous hold longer than this is flagged as sustained
+};
+
+export type ExposureStat = {
+  id: string;
+  kind: "posture" | "action";
+  totalSec: number;
+  percent: number;         // of the analyzed duration
+  longestSec: number;      // longest continuous hold
+  occurrences: number;     // separate episodes
+  perMinute: number;
+  sustained: boolean;      // at least one hold longer than staticSeconds
+};
+
+export type SustainedEpisode = {
+  id: string;
+  kind: "posture" | "action";
+  start: number;
+  end: number;
+  seconds: number;
+};
+
+export type ExposureSummary = {
+  durationSec: number;
+  staticSeconds: number;
+  postures: ExposureStat[];
+  actions: ExposureStat[];
+  sustained: SustainedEpisode[];
+};
+
+export const DEFAULT_STATIC_SECONDS = 60;
+
+// Actions that are not a posture being held
+const NON_STATIC_ACTIONS = new Set(["No person", "Clapping", "Lifting motion"]);
+
+// Time each sample stands for; gaps (e.g. paused playback) are capped at twice the typical step
+export function sampleDurations(samples: { t: number }[]) {
+  const steps = samples.slice(1).map((s, i) => s.t - samples[i].t).filter((d) => d > 0).sort((a, b) => a - b);
+  const typical = steps.length ? steps[Math.floor(steps.length / 2)] : 0;
+  return samples.map((s, i) => {
+    const next = samples[i + 1];
+    const d = next ? next.t - s.t : typical;
+    return Math.min(Math.max(d, 0), typical * 2 || d);
+  });
+}
+
+function statFor(
+  id: string,
+  kind: "posture" | "action",
+  samples: ExposureSample[],
+  durations: number[],
+  has: (s: ExposureSample) => boolean,
+  durationSec: number,
+  staticSeconds: number,
+  sustained: SustainedEpisode[]
+): ExposureStat {
+  let totalSec = 0;
+  let longestSec = 0;
+  let occurrences = 0;
+  let run: { start: number; seconds: number } | null = null;
+
+  const close = (end: number) => {
+    if (!run) return;
+    longestSec = Math.max(longestSec, run.seconds);
+    const staticKind = kind === "posture" || !NON_STATIC_ACTIONS.has(id);
+    if (staticKind && run.seconds > staticSeconds) {
+      sustained.push({ id, kind, start: run.start, end, seconds: run.seconds });
+    }
+    run = null;
+  };
+
+  samples.forEach((s, i) => {
+    if (has(s)) {
+      totalSec += durations[i];
+      if (!run) {
+        run = { start: s.t, seconds: 0 };
+        occurrences++;
+      }
+      run.seconds += durations[i];
+    } else {
+      close(s.t);
+    }
+  });
+  const last = samples[samples.length - 1];
+  close(last ? last.t + durations[durations.length - 1] : 0);
+
+  const minutes = durationSec / 60;
+  return {
+    id,
+    kind,
+    totalSec,
+    percent: durationSec > 0 ? (totalSec / durationSec) * 100 : 0,
+    longestSec,
+    occurrences,
+    perMinute: minutes > 0 ? occurrences / minutes : 0,
+    sustained: sustained.some((e) => e.id === id && e.kind === kind),
+  };
+}
+
+export function summarizeExposure(samples: ExposureSample[], options: ExposureOptions = {}): ExposureSummary {
+  const staticSeconds = options.staticSeconds ?? DEFAULT_STATIC_SECONDS;
+  const sorted = [...samples].sort((a, b) => a.t - b.t);
+  const durations = sampleDurations(sorted);
+  const durationSec = durations.reduce((a, d) => a + d, 0);
+  const sustained: SustainedEpisode[] = [];
+
+  const issueIds = [...new Set(sorted.flatMap((s) => s.issues ?? []))].sort();
+  const actionIds = [...new Set(sorted.map((s) => s.action).filter(Boolean) as string[])];
+
+  const postures = issueIds.map((id) =>
+    statFor(id, "posture", sorted, durations, (s) => !!s.issues?.includes(id), durationSec, staticSeconds, sustained)
+  );
+  const actions = actionIds.map((id) =>
+    statFor(id, "action", sorted, durations, (s) => s.action === id, durationSec, staticSeconds, sustained)
+  );
+
+  const byTime = (a: ExposureStat, b: ExposureStat) => b.totalSec - a.totalSec;
+  return {
+    durationSec,
+    staticSeconds,
+    postures: postures.sort(byTime),
+    actions: actions.sort(byTime),
+    sustained: sustained.sort((a, b) => a.start - b.start),
+  };
+}
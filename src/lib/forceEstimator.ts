@@ -1,31 +1,37 @@
 type Point = { x: number; y: number };
 
-let prevPoint: Point | null = null;
-let prevTime = 0;
+// Motion history for one person, owned by an AnalysisSession
+export type ForceState = { prevPoint: Point | null; prevTime: number };
 
+export function createForceState(): ForceState {
+  return { prevPoint: null, prevTime: 0 };
+}
+
+// Without a state (single photo) every call is treated as a first frame.
+// `now` is the frame timestamp in ms.
 export function estimateForceLevel(
   curr: Point | null,
-  leverScore: number
+  leverScore: number,
+  st: ForceState = createForceState(),
+  now = 0
 ): { level: "Low" | "Medium" | "High"; value: number } {
-  const now = performance.now();
-
   if (!curr) {
-    prevPoint = null;
-    prevTime = now;
+    st.prevPoint = null;
+    st.prevTime = now;
     return { level: "Low", value: 0 };
   }
 
   // First frame
-  if (!prevPoint || prevTime === 0) {
-    prevPoint = curr;
-    prevTime = now;
+  if (!st.prevPoint) {
+    st.prevPoint = curr;
+    st.prevTime = now;
     return { level: "Low", value: Math.round(leverScore * 10) };
   }
 
-  const dt = Math.max((now - prevTime) / 1000, 0.016);
+  const dt = Math.max((now - st.prevTime) / 1000, 0.016);
 
-  const dx = curr.x - prevPoint.x;
-  const dy = curr.y - prevPoint.y;
+  const dx = curr.x - st.prevPoint.x;
+  const dy = curr.y - st.prevPoint.y;
 
   // Normalized movement speed (0–1 typical)
   const rawSpeed = Math.sqrt(dx * dx + dy * dy) / dt;
@@ -43,8 +49,8 @@ export function estimateForceLevel(
   if (value >= 70) level = "High";
   else if (value >= 35) level = "Medium";
 
-  prevPoint = curr;
-  prevTime = now;
+  st.prevPoint = curr;
+  st.prevTime = now;
 
   return { level, value };
 }
@@ -0,0 +1,181 @@
+import type { PoseLandmarkerResult } from "@mediapipe/tasks-vision";
+
+export type Vec3 = { x: number; y: number; z: number };
+
+// "world": MediaPipe world landmarks (metres, origin between the hips, y down)
+// "image": normalized image landmarks with z dropped (fallback)
+export type GeometryBasis = "world" | "image";
+
+// Landmarks below `threshold` visibility are either dropped (treated as missing)
+// or kept and flagged as low-confidence. The torso anchors are always kept and flagged.
+export type VisibilityOptions = {
+  threshold?: number;   // 0..1
+  mode?: "drop" | "flag";
+};
+
+export const DEFAULT_MIN_VISIBILITY = 0.5;
+
+export type PoseFrame = {
+  basis: GeometryBasis;
+  points: (Vec3 | undefined)[];
+  image: (Vec3 | undefined)[];   // normalized image coordinates, for drawing
+  visibility: number[];          // 0..1 per landmark
+  threshold: number;
+};
+
+// Body-fixed directions (unit vectors) in the frame's coordinates
+export type BodyAxes = {
+  up: Vec3;             // vertical up
+  forward: Vec3;        // horizontal, the way the subject faces
+  trunkUp: Vec3;        // hips → shoulders
+  trunkForward: Vec3;   // forward, perpendicular to the trunk
+  trunkLateral: Vec3;   // towards the subject's left, perpendicular to the trunk
+  shoulderMid: Vec3;
+  hipMid: Vec3;
+};
+
+// MediaPipe Pose landmark indices
+export const KP = {
+  NOSE: 0,
+  LEFT_EAR: 7,
+  RIGHT_EAR: 8,
+  LEFT_SHOULDER: 11,
+  RIGHT_SHOULDER: 12,
+  LEFT_ELBOW: 13,
+  RIGHT_ELBOW: 14,
+  LEFT_WRIST: 15,
+  RIGHT_WRIST: 16,
+  LEFT_INDEX: 19,
+  RIGHT_INDEX: 20,
+  LEFT_HIP: 23,
+  RIGHT_HIP: 24,
+  LEFT_KNEE: 25,
+  RIGHT_KNEE: 26,
+  LEFT_ANKLE: 27,
+  RIGHT_ANKLE: 28,
+  LEFT_HEEL: 29,
+  RIGHT_HEEL: 30,
+  LEFT_FOOT: 31,
+  RIGHT_FOOT: 32,
+};
+
+/** --------- VECTOR MATH ---------- */
+
+export function sub(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+export function scale(a: Vec3, k: number): Vec3 {
+  return { x: a.x * k, y: a.y * k, z: a.z * k };
+}
+
+export function mid(a: Vec3, b: Vec3): Vec3 {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, z: (a.z + b.z) / 2 };
+}
+
+export function dot(a: Vec3, b: Vec3) {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+export function cross(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.y * b.z - a.z * b.y, y: a.z * b.x - a.x * b.z, z: a.x * b.y - a.y * b.x };
+}
+
+export function norm(a: Vec3) {
+  return Math.hypot(a.x, a.y, a.z);
+}
+
+export function unit(a: Vec3): Vec3 {
+  const n = norm(a);
+  return n ? scale(a, 1 / n) : { x: 0, y: 0, z: 0 };
+}
+
+export function dist(a: Vec3, b: Vec3) {
+  return norm(sub(a, b));
+}
+
+// Unsigned angle between two vectors, degrees
+export function angleBetween(u: Vec3, v: Vec3) {
+  const mag = norm(u) * norm(v);
+  if (!mag) return 0;
+  const c = Math.max(-1, Math.min(1, dot(u, v) / mag));
+  return (Math.acos(c) * 180) / Math.PI;
+}
+
+// Angle at b between BA and BC, degrees
+export function jointAngle(a: Vec3, b: Vec3, c: Vec3) {
+  return angleBetween(sub(a, b), sub(c, b));
+}
+
+// Angle of v from `axis` within the plane (axis, towards), positive towards `towards`
+export function planeAngle(v: Vec3, axis: Vec3, towards: Vec3) {
+  return (Math.atan2(dot(v, towards), dot(v, axis)) * 180) / Math.PI;
+}
+
+/** --------- POSE FRAME ---------- */
+
+// Shoulders and hips define the body axes; hips hidden by a desk are the normal seated case,
+// so they are flagged instead of dropped and the rest of the frame is still measured
+const TORSO_ANCHORS = [KP.LEFT_SHOULDER, KP.RIGHT_SHOULDER, KP.LEFT_HIP, KP.RIGHT_HIP];
+
+// 3D world landmarks when the landmarker returned them, else 2D image landmarks
+export function poseFrame(
+  res: PoseLandmarkerResult | null,
+  options: VisibilityOptions = {}
+): PoseFrame | null {
+  const lm = res?.landmarks?.[0];
+  if (!lm?.length) return null;
+
+  const world = res?.worldLandmarks?.[0];
+  const basis: GeometryBasis = world?.length ? "world" : "image";
+  const threshold = options.threshold ?? DEFAULT_MIN_VISIBILITY;
+  const drop = (options.mode ?? "drop") === "drop";
+
+  const visibility = lm.map((p) => (Number.isFinite(p.visibility) ? p.visibility : 1));
+  const keep = (i: number) => !drop || visibility[i] >= threshold || TORSO_ANCHORS.includes(i);
+
+  const image = lm.map((p, i) => (keep(i) ? { x: p.x, y: p.y, z: 0 } : undefined));
+  const points =
+    basis === "world"
+      ? world!.map((p, i) => (keep(i) ? { x: p.x, y: p.y, z: p.z } : undefined))
+      : image;
+
+  return { basis, points, image, visibility, threshold };
+}
+
+// Lowest visibility among the given landmarks (missing counts as 0)
+export function frameConfidence(frame: PoseFrame, idxs: number[]) {
+  let c = 1;
+  for (const i of idxs) c = Math.min(c, frame.points[i] ? frame.visibility[i] ?? 0 : 0);
+  return Math.round(c * 100) / 100;
+}
+
+export function bodyAxes(frame: PoseFrame): BodyAxes | null {
+  const p = frame.points;
+  const Ls = p[KP.LEFT_SHOULDER], Rs = p[KP.RIGHT_SHOULDER];
+  const Lh = p[KP.LEFT_HIP], Rh = p[KP.RIGHT_HIP];
+  if (!Ls || !Rs || !Lh || !Rh) return null;
+
+  const shoulderMid = mid(Ls, Rs);
+  const hipMid = mid(Lh, Rh);
+  const up = { x: 0, y: -1, z: 0 };
+
+  let forward: Vec3;
+  if (frame.basis === "world") {
+    // Pelvis line gives the facing direction, flattened to the floor plane
+    const hipLine = sub(Lh, Rh);
+    forward = unit(cross({ x: hipLine.x, y: 0, z: hipLine.z }, up));
+  } else {
+    // Image plane: only left/right facing, from nose vs ears
+    const nose = p[KP.NOSE];
+    const Le = p[KP.LEFT_EAR], Re = p[KP.RIGHT_EAR];
+    const facing = nose && Le && Re && nose.x < mid(Le, Re).x ? -1 : 1;
+    forward = { x: facing, y: 0, z: 0 };
+  }
+
+  const trunkUp = unit(sub(shoulderMid, hipMid));
+  const trunkForward = unit(sub(forward, scale(trunkUp, dot(forward, trunkUp))));
+  const trunkLateral = cross(trunkUp, trunkForward);
+
+  return { up, forward, trunkUp, trunkForward, trunkLateral, shoulderMid, hipMid };
+}
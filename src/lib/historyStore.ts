@@ -0,0 +1,162 @@
+import type { ReportMeta } from "./exporters";
+
+// Assessment history persisted in IndexedDB (works offline, survives reloads)
+
+export type AssessmentKind = "photo" | "video" | "live";
+
+// Lightweight part, read for the history list
+export type AssessmentRecord = {
+  id: string;
+  kind: AssessmentKind;
+  createdAt: string;           // ISO date
+  worker: string;
+  task: string;
+  station: string;
+  assessor: string;
+  site: string;
+  notes: string;
+  source?: string;             // file name
+  score?: number;
+  risk?: string;
+  thumbnail?: string | null;   // small JPEG data URL
+};
+
+// Heavy part, read only when an assessment is reopened
+export type AssessmentPayload = {
+  id: string;
+  report: any;
+  options?: any;
+  samples?: any[];
+  exposure?: any;
+  lifting?: any;
+  tracks?: any[];
+  duration?: number;
+  session?: any;               // live session summary
+};
+
+const DB_NAME = "ergofit";
+const DB_VERSION = 1;
+const RECORDS = "assessments";
+const PAYLOADS = "payloads";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(RECORDS)) {
+        db.createObjectStore(RECORDS, { keyPath: "id" }).createIndex("createdAt", "createdAt");
+      }
+      if (!db.objectStoreNames.contains(PAYLOADS)) db.createObjectStore(PAYLOADS, { keyPath: "id" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error ?? new Error("Could not open history database"));
+    };
+  });
+  return dbPromise;
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("History transaction aborted"));
+  });
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function newId() {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Drops functions / class instances so the data always survives structured cloning
+function plain<T>(v: T): T {
+  return v === undefined ? v : JSON.parse(JSON.stringify(v));
+}
+
+export async function saveAssessment(
+  record: Omit<AssessmentRecord, "id" | "createdAt">,
+  payload: Omit<AssessmentPayload, "id">
+): Promise<AssessmentRecord> {
+  const db = await openDb();
+  const full: AssessmentRecord = { ...record, id: newId(), createdAt: new Date().toISOString() };
+  const tx = db.transaction([RECORDS, PAYLOADS], "readwrite");
+  tx.objectStore(RECORDS).put(full);
+  tx.objectStore(PAYLOADS).put(plain({ ...payload, id: full.id }));
+  await done(tx);
+  return full;
+}
+
+// Newest first
+export async function listAssessments(): Promise<AssessmentRecord[]> {
+  const db = await openDb();
+  const tx = db.transaction(RECORDS, "readonly");
+  const all = await request(tx.objectStore(RECORDS).getAll() as IDBRequest<AssessmentRecord[]>);
+  return all.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getAssessment(id: string) {
+  const db = await openDb();
+  const tx = db.transaction([RECORDS, PAYLOADS], "readonly");
+  const [record, payload] = await Promise.all([
+    request(tx.objectStore(RECORDS).get(id) as IDBRequest<AssessmentRecord | undefined>),
+    request(tx.objectStore(PAYLOADS).get(id) as IDBRequest<AssessmentPayload | undefined>),
+  ]);
+  return record ? { record, payload: payload ?? { id, report: null } } : null;
+}
+
+export async function deleteAssessment(id: string) {
+  const db = await openDb();
+  const tx = db.transaction([RECORDS, PAYLOADS], "readwrite");
+  tx.objectStore(RECORDS).delete(id);
+  tx.objectStore(PAYLOADS).delete(id);
+  await done(tx);
+}
+
+// Record fields from the page's assessment details form
+export function recordFromMeta(
+  kind: AssessmentKind,
+  meta: ReportMeta,
+  report: any,
+  thumbnail?: string | null
+): Omit<AssessmentRecord, "id" | "createdAt"> {
+  return {
+    kind,
+    worker: meta.worker ?? "",
+    task: meta.task ?? "",
+    station: meta.station ?? "",
+    assessor: meta.assessor ?? "",
+    site: meta.site ?? "",
+    notes: meta.notes ?? "",
+    source: meta.source,
+    score: report?.score,
+    risk: report?.risk,
+    thumbnail,
+  };
+}
+
+// Case-insensitive match on labels, notes, source and kind
+export function matchesQuery(r: AssessmentRecord, query: string) {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [r.kind, r.worker, r.task, r.station, r.assessor, r.site, r.notes, r.source, r.risk]
+    .filter(Boolean)
+    .some((v) => String(v).toLowerCase().includes(q));
+}
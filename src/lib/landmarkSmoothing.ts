@@ -0,0 +1,233 @@
+import type { Landmark, NormalizedLandmark, PoseLandmarkerResult } from "@mediapipe/tasks-vision";
+import { storedSetting } from "./storage";
+
+// Temporal smoothing between detection and analysis: One Euro or constant-velocity Kalman
+// filters per landmark coordinate, rejection of sudden jumps, and short dropout filling
+
+export type SmoothingMethod = "off" | "oneEuro" | "kalman";
+
+export type SmoothingSettings = {
+  method: SmoothingMethod;
+  oneEuro: { minCutoff: number; beta: number; dCutoff: number };  // Hz, -, Hz
+  kalman: { processNoise: number; measurementNoise: number };     // acceleration variance, measurement std
+  outlierJump: number;          // max image-space jump per frame (normalized units), 0 = off
+  maxGapMs: number;             // dropouts up to this long are filled, 0 = off
+};
+
+export const DEFAULT_SMOOTHING: SmoothingSettings = {
+  method: "oneEuro",
+  oneEuro: { minCutoff: 1.5, beta: 5, dCutoff: 1 },
+  kalman: { processNoise: 0.5, measurementNoise: 0.006 },
+  outlierJump: 0.2,
+  maxGapMs: 300,
+};
+
+export const SMOOTHING_LABELS: Record<SmoothingMethod, string> = {
+  off: "Off (raw landmarks)",
+  oneEuro: "One Euro",
+  kalman: "Kalman (constant velocity)",
+};
+
+// A landmark rejected this many frames in a row is a real move, not a glitch
+const MAX_REJECTS = 3;
+
+/** --------- SETTINGS (localStorage) ---------- */
+const SETTINGS_KEY = "ergofit.smoothing";
+
+const settingsStore = storedSetting<SmoothingSettings>(SETTINGS_KEY, (saved) => ({
+  ...DEFAULT_SMOOTHING,
+  ...saved,
+  oneEuro: { ...DEFAULT_SMOOTHING.oneEuro, ...saved.oneEuro },
+  kalman: { ...DEFAULT_SMOOTHING.kalman, ...saved.kalman },
+}));
+
+export function smoothingSettings(): SmoothingSettings {
+  return settingsStore.get();
+}
+
+export function saveSmoothingSettings(settings: SmoothingSettings) {
+  settingsStore.save(settings);
+}
+
+/** --------- 1-D FILTERS ---------- */
+
+type AxisFilter = {
+  filter: (z: number, dt: number) => number;
+  estimate: (dt: number) => number;   // expected value after dt, without committing
+  predict: (dt: number) => number;    // advance without a measurement (gap filling)
+};
+
+function oneEuroAxis({ minCutoff, beta, dCutoff }: SmoothingSettings["oneEuro"]): AxisFilter {
+  let x: number | null = null;
+  let dx = 0;
+  const alpha = (cutoff: number, dt: number) => 1 / (1 + 1 / (2 * Math.PI * cutoff * dt));
+
+  return {
+    filter(z, dt) {
+      if (x === null || dt <= 0) {
+        x = z;
+        return z;
+      }
+      dx += alpha(dCutoff, dt) * ((z - x) / dt - dx);
+      x += alpha(minCutoff + beta * Math.abs(dx), dt) * (z - x);
+      return x;
+    },
+    estimate: () => x ?? 0,
+    // Holds the last value; extrapolating the noisy derivative overshoots
+    predict: () => x ?? 0,
+  };
+}
+
+function kalmanAxis({ processNoise: q, measurementNoise }: SmoothingSettings["kalman"]): AxisFilter {
+  const r = measurementNoise * measurementNoise;
+  let x: number | null = null;
+  let v = 0;
+  // Covariance [[p00, p01], [p01, p11]]
+  let p00 = r;
+  let p01 = 0;
+  let p11 = 1;
+
+  function advance(dt: number) {
+    const dt2 = dt * dt;
+    x = x! + v * dt;
+    p00 += 2 * dt * p01 + dt2 * p11 + (q * dt2 * dt2) / 4;
+    p01 += dt * p11 + (q * dt2 * dt) / 2;
+    p11 += q * dt2;
+  }
+
+  return {
+    filter(z, dt) {
+      if (x === null) {
+        x = z;
+        return z;
+      }
+      if (dt > 0) advance(dt);
+      const s = p00 + r;
+      const k0 = p00 / s;
+      const k1 = p01 / s;
+      const y = z - x!;
+      x = x! + k0 * y;
+      v += k1 * y;
+      p11 -= k1 * p01;
+      p01 -= k0 * p01;
+      p00 -= k0 * p00;
+      return x;
+    },
+    estimate: (dt) => (x === null ? 0 : x + v * dt),
+    predict(dt) {
+      if (x === null) return 0;
+      if (dt > 0) advance(dt);
+      return x;
+    },
+  };
+}
+
+/** --------- SMOOTHER ---------- */
+
+type PointFilter = { image: AxisFilter[]; world: AxisFilter[]; rejects: number };
+
+type PersonFilter = {
+  settings: SmoothingSettings;
+  tMs: number;
+  points: PointFilter[];
+  out: { landmarks: NormalizedLandmark[]; world: Landmark[] | null };
+};
+
+export type LandmarkSmoother = ReturnType<typeof createLandmarkSmoother>;
+
+/**
+ * Smooths landmarks[0] / worldLandmarks[0] of each single-person result, keyed by person
+ * (track) ID. Visibility passes through untouched. Time going backwards (video seek) or a
+ * settings change starts the filters over.
+ */
+export function createLandmarkSmoother(getSettings: () => SmoothingSettings = smoothingSettings) {
+  const persons = new Map<number, PersonFilter>();
+
+  function newAxes(s: SmoothingSettings) {
+    const make = () => (s.method === "kalman" ? kalmanAxis(s.kalman) : oneEuroAxis(s.oneEuro));
+    return [make(), make(), make()];
+  }
+
+  function newPoint(s: SmoothingSettings): PointFilter {
+    return { image: newAxes(s), world: newAxes(s), rejects: 0 };
+  }
+
+  function apply(res: PoseLandmarkerResult | null, tMs: number, personId = 0): PoseLandmarkerResult | null {
+    const s = getSettings();
+    if (s.method === "off") {
+      persons.clear();
+      return res;
+    }
+
+    let st = persons.get(personId);
+    const lm = res?.landmarks?.[0];
+    const world = res?.worldLandmarks?.[0] ?? null;
+
+    // Dropout: repeat / extrapolate the last pose for a short while
+    if (!lm?.length) {
+      if (!st || tMs <= st.tMs || tMs - st.tMs > s.maxGapMs || st.settings !== s) {
+        persons.delete(personId);
+        return res;
+      }
+      const dt = (tMs - st.tMs) / 1000;
+      const landmarks = st.out.landmarks.map((p, i) => {
+        const [fx, fy, fz] = st!.points[i].image;
+        return { ...p, x: fx.predict(dt), y: fy.predict(dt), z: fz.predict(dt) };
+      });
+      const filled = st.out.world?.map((p, i) => {
+        const [fx, fy, fz] = st!.points[i].world;
+        return { ...p, x: fx.predict(dt), y: fy.predict(dt), z: fz.predict(dt) };
+      });
+      st.tMs = tMs;
+      st.out = { landmarks, world: filled ?? null };
+      return { ...(res ?? {}), landmarks: [landmarks], worldLandmarks: filled ? [filled] : [] } as PoseLandmarkerResult;
+    }
+
+    if (!st || tMs <= st.tMs || st.settings !== s || st.points.length !== lm.length) {
+      st = { settings: s, tMs, points: lm.map(() => newPoint(s)), out: { landmarks: [], world: null } };
+      persons.set(personId, st);
+    }
+    const dt = (tMs - st.tMs) / 1000;
+
+    const landmarks: NormalizedLandmark[] = [];
+    const worldOut: Landmark[] = [];
+    lm.forEach((p, i) => {
+      let pf = st!.points[i];
+      const [fx, fy, fz] = pf.image;
+      const w = world?.[i];
+
+      // Sudden jump: keep the expected position unless it persists
+      const seen = st!.out.landmarks.length > 0;
+      const jump = seen ? Math.hypot(p.x - fx.estimate(dt), p.y - fy.estimate(dt)) : 0;
+      if (s.outlierJump > 0 && jump > s.outlierJump && pf.rejects < MAX_REJECTS) {
+        pf.rejects++;
+        landmarks.push({ ...p, x: fx.predict(dt), y: fy.predict(dt), z: fz.predict(dt) });
+        if (w) {
+          const [wx, wy, wz] = pf.world;
+          worldOut.push({ ...w, x: wx.predict(dt), y: wy.predict(dt), z: wz.predict(dt) });
+        }
+        return;
+      }
+      if (pf.rejects >= MAX_REJECTS) {
+        pf = st!.points[i] = newPoint(s);
+      }
+      pf.rejects = 0;
+
+      const [ix, iy, iz] = pf.image;
+      landmarks.push({ ...p, x: ix.filter(p.x, dt), y: iy.filter(p.y, dt), z: iz.filter(p.z, dt) });
+      if (w) {
+        const [wx, wy, wz] = pf.world;
+        worldOut.push({ ...w, x: wx.filter(w.x, dt), y: wy.filter(w.y, dt), z: wz.filter(w.z, dt) });
+      }
+    });
+
+    st.tMs = tMs;
+    st.out = { landmarks, world: world ? worldOut : null };
+    return { ...res, landmarks: [landmarks], worldLandmarks: world ? [worldOut] : res!.worldLandmarks } as PoseLandmarkerResult;
+  }
+
+  return {
+    apply,
+    reset: () => persons.clear(),
+  };
+}
@@ -1,19 +1,64 @@
 import type { PoseLandmarkerResult } from "@mediapipe/tasks-vision";
+import { KP, frameConfidence, mid, poseFrame, sub, type PoseFrame, type Vec3, type VisibilityOptions } from "./geometry";
+import { activeCalibration, type Calibration } from "./calibration";
+import { estimateBiomechanics, frameToMetres, horizontal, type Biomechanics, type BodyInputs } from "./biomechanics";
 
+export type LeverUnits = {
+  reachCm: number;            // horizontal hands → shoulders
+  trunkLeanCm: number;        // horizontal shoulders → hips
+  shoulderMomentNm: number;   // worse arm, from the segment-mass model
+  lowBackMomentNm: number;    // at L5/S1, from the segment-mass model
+  bodyMassKg: number;
+};
+
+// Real-unit distances, scaled the same way as the biomechanical model
+function leverUnits(frame: PoseFrame, toM: (p: Vec3) => Vec3, biomech: Biomechanics): LeverUnits {
+  const p = frame.points;
+  const s = toM(mid(p[KP.LEFT_SHOULDER]!, p[KP.RIGHT_SHOULDER]!));
+  const h = toM(mid(p[KP.LEFT_HIP]!, p[KP.RIGHT_HIP]!));
+  const w = toM(mid(p[KP.LEFT_WRIST]!, p[KP.RIGHT_WRIST]!));
+  return {
+    reachCm: horizontal(sub(w, s)) * 100,
+    trunkLeanCm: horizontal(sub(s, h)) * 100,
+    shoulderMomentNm: Math.max(biomech.shoulderMomentNm.left, biomech.shoulderMomentNm.right),
+    lowBackMomentNm: biomech.l5s1MomentNm,
+    bodyMassKg: biomech.bodyMassKg,
+  };
+}
+
+const LEVER_JOINTS = [
+  KP.LEFT_SHOULDER,
+  KP.RIGHT_SHOULDER,
+  KP.LEFT_WRIST,
+  KP.RIGHT_WRIST,
+  KP.LEFT_HIP,
+  KP.RIGHT_HIP,
+];
+
+// Pass `calibration: null` to ignore the active station; `body` feeds the segment-mass model
 export function buildLeverReport(
   res: PoseLandmarkerResult | null,
-  angles?: Record<string, number> | null
+  angles?: Record<string, number> | null,
+  visibility?: VisibilityOptions,
+  calibration: Calibration | null = activeCalibration(),
+  body: BodyInputs = {}
 ) {
-  const lm = res?.landmarks?.[0];
-  if (!lm) return null;
+  const frame = poseFrame(res, visibility);
+  if (!frame) return null;
 
-  const L_SHOULDER = lm[11];
-  const R_SHOULDER = lm[12];
-  const L_HIP = lm[23];
-  const R_HIP = lm[24];
-  const L_WRIST = lm[15];
-  const R_WRIST = lm[16];
+  // Occluded (dropped) joints make the lever lines meaningless
+  if (LEVER_JOINTS.some((i) => !frame.image[i] || !frame.points[i])) return null;
+  const confidence = frameConfidence(frame, LEVER_JOINTS);
 
+  const lm = frame.image;
+  const L_SHOULDER = lm[KP.LEFT_SHOULDER]!;
+  const R_SHOULDER = lm[KP.RIGHT_SHOULDER]!;
+  const L_HIP = lm[KP.LEFT_HIP]!;
+  const R_HIP = lm[KP.RIGHT_HIP]!;
+  const L_WRIST = lm[KP.LEFT_WRIST]!;
+  const R_WRIST = lm[KP.RIGHT_WRIST]!;
+
+  // Image-space points, used for drawing the lever lines
   const shoulderMid = {
     x: (L_SHOULDER.x + R_SHOULDER.x) / 2,
     y: (L_SHOULDER.y + R_SHOULDER.y) / 2,
@@ -29,6 +74,38 @@ export function buildLeverReport(
     y: (L_WRIST.y + R_WRIST.y) / 2,
   };
 
+  const points = { shoulderMid, hipMid, wristMid };
+  const biomech = estimateBiomechanics(frame, calibration, body) ?? undefined;
+  const metres = frameToMetres(frame, calibration, body.statureCm ?? calibration?.statureCm);
+  const units = biomech && metres ? leverUnits(frame, metres.toM, biomech) : undefined;
+
+  if (frame.basis === "world") {
+    // Horizontal moment arms in metres: hands in front of the shoulders,
+    // shoulders in front of the hips
+    const p = frame.points;
+    const s = mid(p[KP.LEFT_SHOULDER]!, p[KP.RIGHT_SHOULDER]!);
+    const h = mid(p[KP.LEFT_HIP]!, p[KP.RIGHT_HIP]!);
+    const w = mid(p[KP.LEFT_WRIST]!, p[KP.RIGHT_WRIST]!);
+
+    const reachVec = sub(w, s);
+    const leanVec = sub(s, h);
+    const shoulderReach = Math.hypot(reachVec.x, reachVec.z);
+    const trunkLean = Math.hypot(leanVec.x, leanVec.z);
+
+    return {
+      basis: frame.basis,
+      shoulderMomentIndex: shoulderReach * 10,
+      lowBackMomentIndex: trunkLean * 12,
+      strainIndex: Math.min(100, (shoulderReach + trunkLean) * 100),
+      strainLevel:
+        shoulderReach + trunkLean > 0.6 ? "High" : shoulderReach > 0.25 ? "Medium" : "Low",
+      points,
+      confidence,
+      units,
+      biomech,
+    };
+  }
+
   const shoulderReach = Math.hypot(
     wristMid.x - shoulderMid.x,
     wristMid.y - shoulderMid.y
@@ -40,15 +117,15 @@ export function buildLeverReport(
   );
 
   return {
+    basis: frame.basis,
     shoulderMomentIndex: shoulderReach * 10,
     lowBackMomentIndex: trunkLean * 12,
     strainIndex: Math.min(100, (shoulderReach + trunkLean) * 60),
     strainLevel:
       shoulderReach + trunkLean > 1 ? "High" : shoulderReach > 0.4 ? "Medium" : "Low",
-    points: {
-      shoulderMid,
-      hipMid,
-      wristMid,
-    },
+    points,
+    confidence,
+    units,
+    biomech,
   };
 }
@@ -0,0 +1,141 @@
+import { sampleDurations, summarizeExposure, type ExposureSummary } from "./exposure";
+import type { PostureReport, StrainLevel } from "./poseMath";
+
+// Live-mode session recording: one slim sample per interval, summarized when the session stops
+
+export type SessionSample = {
+  t: number;                    // seconds since the session started
+  score: number;
+  risk: StrainLevel;
+  action?: string;
+  force?: number;
+  issues?: string[];            // PostureIssue ids
+  high?: string[];              // ids of the HIGH-severity issues
+};
+
+export type BadStretch = { start: number; end: number; seconds: number };
+
+export type SessionSummary = {
+  startedAt: string;            // ISO
+  endedAt: string;
+  durationSec: number;
+  averageScore: number;         // time-weighted
+  riskSeconds: Record<StrainLevel, number>;
+  topIssues: { id: string; title: string; totalSec: number; percent: number; occurrences: number }[];
+  longestBad: BadStretch | null;  // longest continuous Medium/High risk stretch
+  alerts: number;
+  issueTitles: Record<string, string>;
+};
+
+export const LIVE_SAMPLE_MS = 1000;
+const TOP_ISSUES = 5;
+
+export function summarizeSession(
+  samples: SessionSample[],
+  info: { startedAt: string; endedAt: string; issueTitles?: Record<string, string>; alerts?: number },
+  exposure: ExposureSummary = summarizeExposure(samples)
+): SessionSummary {
+  const durations = sampleDurations(samples);
+  const durationSec = durations.reduce((a, d) => a + d, 0);
+  const riskSeconds: Record<StrainLevel, number> = { Low: 0, Medium: 0, High: 0 };
+  let weighted = 0;
+  let longestBad: BadStretch | null = null;
+  let run: BadStretch | null = null;
+
+  samples.forEach((s, i) => {
+    const d = durations[i];
+    riskSeconds[s.risk] += d;
+    weighted += s.score * d;
+
+    if (s.risk !== "Low") {
+      run ??= { start: s.t, end: s.t, seconds: 0 };
+      run.end = s.t + d;
+      run.seconds += d;
+      if (!longestBad || run.seconds > longestBad.seconds) longestBad = { ...run };
+    } else {
+      run = null;
+    }
+  });
+
+  const issueTitles = info.issueTitles ?? {};
+  return {
+    startedAt: info.startedAt,
+    endedAt: info.endedAt,
+    durationSec,
+    averageScore: durationSec > 0 ? Math.round(weighted / durationSec) : 0,
+    riskSeconds,
+    topIssues: exposure.postures.slice(0, TOP_ISSUES).map((p) => ({
+      id: p.id,
+      title: issueTitles[p.id] ?? p.id,
+      totalSec: p.totalSec,
+      percent: p.percent,
+      occurrences: p.occurrences,
+    })),
+    longestBad,
+    alerts: info.alerts ?? 0,
+    issueTitles,
+  };
+}
+
+// Band the session spent the most time in, for the history list
+export function dominantRisk(summary: SessionSummary): StrainLevel {
+  const r = summary.riskSeconds;
+  return r.High >= r.Medium && r.High >= r.Low ? "High" : r.Medium >= r.Low ? "Medium" : "Low";
+}
+
+// Slim samples back into report-shaped rows for the CSV export
+export function sessionCsvFrames(samples: SessionSample[]) {
+  return samples.map((s) => ({
+    t: s.t,
+    report: {
+      score: s.score,
+      risk: s.risk,
+      action: s.action ? { label: s.action } : undefined,
+      issues: (s.issues ?? []).map((id) => ({ id, severity: s.high?.includes(id) ? "HIGH" : "MILD" })),
+      lever: s.force !== undefined ? { force: { value: s.force } } : undefined,
+    },
+  }));
+}
+
+export type SessionRecorder = ReturnType<typeof createSessionRecorder>;
+
+// Samples live reports at a fixed interval; `nowMs` is a monotonic clock
+export function createSessionRecorder(sampleMs = LIVE_SAMPLE_MS) {
+  let startMs = 0;
+  let startedAt = "";
+  let lastMs = -Infinity;
+  let samples: SessionSample[] = [];
+  let titles: Record<string, string> = {};
+
+  return {
+    start(nowMs: number) {
+      startMs = nowMs;
+      startedAt = new Date().toISOString();
+      lastMs = -Infinity;
+      samples = [];
+      titles = {};
+    },
+
+    // Returns true when the report was kept as a sample; frames without a person are
+    // skipped so they don't count as low-risk time
+    record(report: (PostureReport & { action?: { label?: string } }) | null, force: number | undefined, nowMs: number) {
+      if (!startedAt || !report || nowMs - lastMs < sampleMs) return false;
+      lastMs = nowMs;
+      for (const i of report.issues) titles[i.id] = i.title;
+      samples.push({
+        t: (nowMs - startMs) / 1000,
+        score: report.score,
+        risk: report.risk,
+        action: report.action?.label,
+        force,
+        issues: report.issues.map((i) => i.id),
+        high: report.issues.filter((i) => i.severity === "HIGH").map((i) => i.id),
+      });
+      return true;
+    },
+
+    samples: () => samples,
+    issueTitles: () => titles,
+    startedAt: () => startedAt,
+  };
+}
@@ -1,19 +1,24 @@
 type Point = { x: number; y: number };
 
-type MotionState = {
+export type MotionState = {
   prev?: Point;
+  prevTime?: number;
   velocity?: number;
   acceleration?: number;
 };
 
-const motionMap = new Map<string, MotionState>();
+// Per-key motion history, owned by an AnalysisSession
+export type MotionMap = Map<string, MotionState>;
 
+// `now` is the frame timestamp in ms
 export function updateMotion(
+  motionMap: MotionMap,
   key: string,
   curr: Point,
-  dt: number
+  now: number
 ) {
   const state = motionMap.get(key) ?? {};
+  const dt = state.prevTime === undefined ? 0 : (now - state.prevTime) / 1000;
   let velocity = 0;
   let acceleration = 0;
 
@@ -27,6 +32,6 @@ export function updateMotion(
     }
   }
 
-  motionMap.set(key, { prev: curr, velocity, acceleration });
+  motionMap.set(key, { prev: curr, prevTime: now, velocity, acceleration });
   return { velocity, acceleration };
 }
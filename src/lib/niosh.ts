@@ -0,0 +1,295 @@
+import type { PoseLandmarkerResult } from "@mediapipe/tasks-vision";
+import type { ActionLabel } from "./actionDetector";
+import { KP, mid, type GeometryBasis } from "./geometry";
+import { activeCalibration, type Calibration } from "./calibration";
+
+export type NioshCoupling = "Good" | "Fair" | "Poor";
+export type NioshDuration = 1 | 2 | 8;            // hours of continuous lifting
+
+// User-supplied task data for the Revised NIOSH Lifting Equation
+export type NioshInputs = {
+  loadKg?: number;
+  frequency?: number;           // lifts per minute
+  durationHours?: NioshDuration;
+  coupling?: NioshCoupling;
+  statureCm?: number;           // scales image coordinates when world landmarks are missing and no calibration is active
+};
+
+// Hand position relative to the feet at one moment of a lift (cm / degrees)
+export type LiftGeometry = {
+  h: number;                    // horizontal distance, ankles midpoint → hands
+  v: number;                    // vertical height of the hands above the floor
+  a: number;                    // asymmetry angle from the sagittal plane
+  basis: GeometryBasis;
+};
+
+export type NioshMultipliers = {
+  hm: number;
+  vm: number;
+  dm: number;
+  am: number;
+  fm: number;
+  cm: number;
+};
+
+export type LiftEvent = {
+  start: number;                // seconds
+  end: number;
+  origin: LiftGeometry;
+  destination: LiftGeometry;
+  d: number;                    // vertical travel distance (cm)
+  rwlOrigin: number;            // kg
+  rwlDestination: number;
+  // Lifting indices are null where the RWL is 0 (the lift is outside the equation's limits)
+  liOrigin: number | null;
+  liDestination: number | null;
+  li: number | null;            // governing (larger) lifting index
+  outOfRange: boolean;
+  reason?: string;              // which limits were exceeded, e.g. "origin: H > 63 cm"
+  multipliers: NioshMultipliers; // at the origin
+};
+
+// Timeline entry consumed by extractLiftEvents
+export type LiftFrame = {
+  t: number;
+  action?: ActionLabel;
+  lift?: LiftGeometry | null;
+};
+
+const LOAD_CONSTANT = 23;       // kg
+
+// Frequency multiplier table (Waters et al., 1994)
+// rows: lifts/min; columns: [≤1h V<75, ≤1h V≥75, ≤2h V<75, ≤2h V≥75, ≤8h V<75, ≤8h V≥75]
+const FM_TABLE: [number, number[]][] = [
+  [0.2, [1.0, 1.0, 0.95, 0.95, 0.85, 0.85]],
+  [0.5, [0.97, 0.97, 0.92, 0.92, 0.81, 0.81]],
+  [1, [0.94, 0.94, 0.88, 0.88, 0.75, 0.75]],
+  [2, [0.91, 0.91, 0.84, 0.84, 0.65, 0.65]],
+  [3, [0.88, 0.88, 0.79, 0.79, 0.55, 0.55]],
+  [4, [0.84, 0.84, 0.72, 0.72, 0.45, 0.45]],
+  [5, [0.8, 0.8, 0.6, 0.6, 0.35, 0.35]],
+  [6, [0.75, 0.75, 0.5, 0.5, 0.27, 0.27]],
+  [7, [0.7, 0.7, 0.42, 0.42, 0.22, 0.22]],
+  [8, [0.6, 0.6, 0.35, 0.35, 0.18, 0.18]],
+  [9, [0.52, 0.52, 0.3, 0.3, 0.0, 0.15]],
+  [10, [0.45, 0.45, 0.26, 0.26, 0.0, 0.13]],
+  [11, [0.41, 0.41, 0.0, 0.23, 0.0, 0.0]],
+  [12, [0.37, 0.37, 0.0, 0.21, 0.0, 0.0]],
+  [13, [0.0, 0.34, 0.0, 0.0, 0.0, 0.0]],
+  [14, [0.0, 0.31, 0.0, 0.0, 0.0, 0.0]],
+  [15, [0.0, 0.28, 0.0, 0.0, 0.0, 0.0]],
+];
+
+function round1(n: number) {
+  return Math.round(n * 10) / 10;
+}
+
+/** --------- MULTIPLIERS ---------- */
+
+export function frequencyMultiplier(frequency: number, durationHours: NioshDuration, v: number) {
+  const col = (durationHours <= 1 ? 0 : durationHours <= 2 ? 2 : 4) + (v >= 75 ? 1 : 0);
+  const row = FM_TABLE.find(([f]) => frequency <= f);
+  return row ? row[1][col] : 0;
+}
+
+export function couplingMultiplier(coupling: NioshCoupling, v: number) {
+  if (coupling === "Good") return 1;
+  if (coupling === "Fair") return v < 75 ? 0.95 : 1;
+  return 0.9;
+}
+
+export function nioshMultipliers(g: LiftGeometry, d: number, inputs: NioshInputs): NioshMultipliers {
+  const h = Math.max(g.h, 25);
+  const dd = Math.max(d, 25);
+  return {
+    hm: h > 63 ? 0 : 25 / h,
+    vm: g.v > 175 ? 0 : Math.max(0, 1 - 0.003 * Math.abs(g.v - 75)),
+    dm: dd > 175 ? 0 : Math.min(1, 0.82 + 4.5 / dd),
+    am: g.a > 135 ? 0 : 1 - 0.0032 * g.a,
+    fm: frequencyMultiplier(inputs.frequency ?? 1, inputs.durationHours ?? 1, g.v),
+    cm: couplingMultiplier(inputs.coupling ?? "Fair", g.v),
+  };
+}
+
+export function recommendedWeightLimit(m: NioshMultipliers) {
+  return LOAD_CONSTANT * m.hm * m.vm * m.dm * m.am * m.fm * m.cm;
+}
+
+// Limits behind a zero multiplier (the coupling multiplier is never 0)
+function exceededLimits(m: NioshMultipliers) {
+  const out: string[] = [];
+  if (m.hm === 0) out.push("H > 63 cm");
+  if (m.vm === 0) out.push("V > 175 cm");
+  if (m.dm === 0) out.push("D > 175 cm");
+  if (m.am === 0) out.push("A > 135°");
+  if (m.fm === 0) out.push("frequency beyond the table for this duration");
+  return out;
+}
+
+/** --------- GEOMETRY ---------- */
+
+/**
+ * Hand position for the lifting equation. Uses MediaPipe world landmarks (metres)
+ * when available; otherwise scales image coordinates by the worker's stature,
+ * in which case the asymmetry angle cannot be measured and is reported as 0.
+ * A camera calibration, when present, replaces the stature scaling and rescales
+ * world landmarks to the calibrated worker.
+ */
+export function measureLift(
+  res: PoseLandmarkerResult | null,
+  statureCm = 170,
+  aspect = 1,
+  calibration: Calibration | null = activeCalibration()
+): LiftGeometry | null {
+  const world = res?.worldLandmarks?.[0];
+  if (world?.length) {
+    const Lw = world[KP.LEFT_WRIST], Rw = world[KP.RIGHT_WRIST];
+    const La = world[KP.LEFT_ANKLE], Ra = world[KP.RIGHT_ANKLE];
+    if (!Lw || !Rw || !La || !Ra) return null;
+
+    const hands = mid(Lw, Rw);
+    const ankles = mid(La, Ra);
+
+    // World y points down; the floor is the lowest foot landmark
+    const feetY = [KP.LEFT_HEEL, KP.RIGHT_HEEL, KP.LEFT_FOOT, KP.RIGHT_FOOT]
+      .map((i) => world[i]?.y)
+      .filter((y): y is number => Number.isFinite(y));
+    const floorY = feetY.length ? Math.max(...feetY) : ankles.y + 0.08;
+
+    const hx = hands.x - ankles.x;
+    const hz = hands.z - ankles.z;
+
+    // Sagittal direction from the feet (heel → toes)
+    let a = 0;
+    const Lhe = world[KP.LEFT_HEEL], Rhe = world[KP.RIGHT_HEEL];
+    const Lf = world[KP.LEFT_FOOT], Rf = world[KP.RIGHT_FOOT];
+    if (Lhe && Rhe && Lf && Rf && Math.hypot(hx, hz) > 0.1) {
+      const heel = mid(Lhe, Rhe);
+      const toe = mid(Lf, Rf);
+      const fx = toe.x - heel.x;
+      const fz = toe.z - heel.z;
+      const mag = Math.hypot(fx, fz) * Math.hypot(hx, hz);
+      if (mag) a = (Math.acos(Math.max(-1, Math.min(1, (fx * hx + fz * hz) / mag))) * 180) / Math.PI;
+    }
+
+    const cm = (calibration?.worldScale ?? 1) * 100;
+    return {
+      h: round1(Math.hypot(hx, hz) * cm),
+      v: round1(Math.max(0, floorY - hands.y) * cm),
+      a: Math.round(a),
+      basis: "world",
+    };
+  }
+
+  const lm = res?.landmarks?.[0];
+  if (!lm) return null;
+
+  const nose = lm[KP.NOSE];
+  const Lw = lm[KP.LEFT_WRIST], Rw = lm[KP.RIGHT_WRIST];
+  const La = lm[KP.LEFT_ANKLE], Ra = lm[KP.RIGHT_ANKLE];
+  if (!nose || !Lw || !Rw || !La || !Ra) return null;
+
+  const hands = mid(Lw, Rw);
+  const ankles = mid(La, Ra);
+  const floorY = Math.max(La.y, Ra.y) + 0.01;
+
+  // Nose sits at roughly 92% of standing stature
+  const span = floorY - nose.y;
+  if (span <= 0) return null;
+  const cmPerY = calibration ? calibration.metersPerUnit * 100 : (statureCm * 0.92) / span;
+
+  return {
+    h: round1(Math.abs(hands.x - ankles.x) * aspect * cmPerY),
+    v: round1(Math.max(0, floorY - hands.y) * cmPerY),
+    a: 0,
+    basis: "image",
+  };
+}
+
+/** --------- LIFT EVENTS ---------- */
+
+export function evaluateLift(
+  start: number,
+  end: number,
+  origin: LiftGeometry,
+  destination: LiftGeometry,
+  inputs: NioshInputs
+): LiftEvent {
+  const d = round1(Math.abs(destination.v - origin.v));
+  const load = inputs.loadKg ?? 0;
+
+  const multipliers = nioshMultipliers(origin, d, inputs);
+  const destMultipliers = nioshMultipliers(destination, d, inputs);
+  const rwlOrigin = recommendedWeightLimit(multipliers);
+  const rwlDestination = recommendedWeightLimit(destMultipliers);
+
+  // RWL of 0 means the lift is outside the equation's limits: no index, and say why
+  const li = (rwl: number) => (rwl > 0 ? Math.round((load / rwl) * 100) / 100 : null);
+  const liOrigin = li(rwlOrigin);
+  const liDestination = li(rwlDestination);
+  const reasons = [
+    ...exceededLimits(multipliers).map((r) => `origin: ${r}`),
+    ...exceededLimits(destMultipliers).map((r) => `destination: ${r}`),
+  ];
+
+  return {
+    start,
+    end,
+    origin,
+    destination,
+    d,
+    rwlOrigin: round1(rwlOrigin),
+    rwlDestination: round1(rwlDestination),
+    liOrigin,
+    liDestination,
+    li: liOrigin === null || liDestination === null ? null : Math.max(liOrigin, liDestination),
+    outOfRange: liOrigin === null || liDestination === null,
+    reason: reasons.length ? reasons.join("; ") : undefined,
+    multipliers,
+  };
+}
+
+/**
+ * Groups consecutive "Lifting motion" frames into lift events. The origin is
+ * taken from the frame just before the rise starts and the destination from
+ * the first frame after it ends, falling back to the run's own ends.
+ */
+export function extractLiftEvents(frames: LiftFrame[], inputs: NioshInputs): LiftEvent[] {
+  const events: LiftEvent[] = [];
+
+  let i = 0;
+  while (i < frames.length) {
+    if (frames[i].action !== "Lifting motion") {
+      i++;
+      continue;
+    }
+
+    let j = i;
+    while (j + 1 < frames.length && frames[j + 1].action === "Lifting motion") j++;
+
+    const window = frames.slice(Math.max(0, i - 1), Math.min(frames.length, j + 2));
+    const withLift = window.filter((f) => f.lift);
+    const first = withLift[0];
+    const last = withLift[withLift.length - 1];
+
+    if (first && last && first !== last) {
+      events.push(evaluateLift(frames[i].t, frames[j].t, first.lift!, last.lift!, inputs));
+    }
+
+    i = j + 1;
+  }
+
+  return events;
+}
+
+export function liftRisk(li: number): "Low" | "Medium" | "High" {
+  if (li <= 1) return "Low";
+  if (li <= 3) return "Medium";
+  return "High";
+}
+
+// "LI 1.25 (Medium)", or why the lifting equation does not apply
+export function liftSummary(l: LiftEvent) {
+  if (l.li === null) return `Outside NIOSH limits${l.reason ? ` (${l.reason})` : ""}`;
+  return `LI ${l.li.toFixed(2)} (${liftRisk(l.li)})`;
+}
@@ -0,0 +1,16 @@
+// System notifications for posture alerts and break reminders
+
+export async function requestNotificationPermission() {
+  if (!("Notification" in window)) return "unsupported" as const;
+  return Notification.permission === "default" ? Notification.requestPermission() : Notification.permission;
+}
+
+// No-op without permission; `tag` replaces an earlier notification of the same kind
+export function showNotification(title: string, options: { body: string; tag: string }) {
+  if (!("Notification" in window) || Notification.permission !== "granted") return;
+  try {
+    new Notification(title, options);
+  } catch {
+    // some mobile browsers only allow notifications from a service worker
+  }
+}
@@ -0,0 +1,213 @@
+import { FilesetResolver } from "@mediapipe/tasks-vision";
+import { MIN_MODEL_BYTES, MODEL_VARIANTS, modelSettings, type PoseModelVariant } from "./poseModels";
+
+// Offline copies of the MediaPipe runtime (WASM) and pose models in Cache Storage. Files are
+// checked against the SHA-256 manifest generated at build time (/asset-manifest.json) both
+// when downloaded and when loaded, so a truncated or stale copy is never used.
+
+export type AssetManifest = {
+  version: number;
+  assets: Record<string, { sha256: string; bytes: number }>;
+};
+
+export type AssetStatus = {
+  path: string;
+  cached: boolean;
+  bytes: number;                // cached size, or expected size when not cached
+  checksum: boolean;            // the manifest lists a SHA-256 for it
+};
+
+export type AssetProgress = { path: string; loaded: number; total: number };
+
+export const ASSET_CACHE = "ergofit-assets-v1";
+const MANIFEST_PATH = "/asset-manifest.json";
+const RUNTIME_BASE = "/wasm";
+
+let manifestCache: Promise<AssetManifest> | null = null;
+// Downloads in flight, so the first-run prefetch and a page loading the model share one
+const inflight = new Map<string, Promise<ArrayBuffer>>();
+
+async function openCache() {
+  if (typeof caches === "undefined") throw new Error("Cache Storage is not available (needs HTTPS)");
+  return caches.open(ASSET_CACHE);
+}
+
+async function sha256Hex(buf: ArrayBuffer) {
+  const digest = await crypto.subtle.digest("SHA-256", buf);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** --------- MANIFEST ---------- */
+
+// Network first so a redeploy's checksums win; the cached copy keeps working offline
+export function assetManifest(): Promise<AssetManifest> {
+  manifestCache ??= (async () => {
+    const cache = await openCache().catch(() => null);
+    try {
+      const resp = await fetch(MANIFEST_PATH, { cache: "no-cache" });
+      if (!resp.ok) throw new Error(`${resp.status} ${resp.statusText}`);
+      await cache?.put(MANIFEST_PATH, resp.clone());
+      return (await resp.json()) as AssetManifest;
+    } catch (e) {
+      const cached = await cache?.match(MANIFEST_PATH);
+      if (cached) return (await cached.json()) as AssetManifest;
+      console.warn("Asset manifest unavailable; files are cached without checksum verification", e);
+      return { version: 0, assets: {} };
+    }
+  })();
+  manifestCache.catch(() => (manifestCache = null));
+  return manifestCache;
+}
+
+// The runtime build this browser loads (SIMD or not), as picked by the landmarker
+export async function runtimeAssetPaths() {
+  const fileset = await FilesetResolver.forVisionTasks(RUNTIME_BASE);
+  return [fileset.wasmLoaderPath, fileset.wasmBinaryPath];
+}
+
+function isModel(path: string) {
+  return path.endsWith(".task");
+}
+
+/** --------- DOWNLOAD / LOAD ---------- */
+
+// A model the deployed manifest does not list is refused; without any manifest (offline, never
+// fetched) only the size sanity check applies
+async function verify(path: string, buf: ArrayBuffer) {
+  const manifest = await assetManifest();
+  const expected = manifest.assets[path];
+  if (!expected) {
+    if (!isModel(path)) return;
+    if (manifest.version > 0) throw new Error(`${path} is not in the asset manifest; was it deployed with this build?`);
+    if (buf.byteLength < MIN_MODEL_BYTES) {
+      throw new Error(`Model file too small (${buf.byteLength} bytes). Wrong file/404 saved?`);
+    }
+    return;
+  }
+  if (buf.byteLength !== expected.bytes) {
+    throw new Error(`Size mismatch for ${path}: ${buf.byteLength} bytes, expected ${expected.bytes}`);
+  }
+  const actual = await sha256Hex(buf);
+  if (actual !== expected.sha256) throw new Error(`Checksum mismatch for ${path}`);
+}
+
+// Downloads, verifies and caches one file; progress follows the response stream
+export function downloadAsset(path: string, onProgress?: (p: AssetProgress) => void): Promise<ArrayBuffer> {
+  let promise = inflight.get(path);
+  if (!promise) {
+    promise = fetchAndCache(path, onProgress).finally(() => inflight.delete(path));
+    inflight.set(path, promise);
+  }
+  return promise;
+}
+
+async function fetchAndCache(path: string, onProgress?: (p: AssetProgress) => void): Promise<ArrayBuffer> {
+  const resp = await fetch(path, { cache: "no-cache" });
+  if (!resp.ok) throw new Error(`Download of ${path} failed: ${resp.status} ${resp.statusText}`);
+  const expected = (await assetManifest()).assets[path];
+  const total = Number(resp.headers.get("Content-Length")) || expected?.bytes || 0;
+
+  let buf: ArrayBuffer;
+  if (resp.body && onProgress) {
+    const reader = resp.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let loaded = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      loaded += value.byteLength;
+      onProgress({ path, loaded, total });
+    }
+    const bytes = new Uint8Array(loaded);
+    let offset = 0;
+    for (const c of chunks) {
+      bytes.set(c, offset);
+      offset += c.byteLength;
+    }
+    buf = bytes.buffer;
+  } else {
+    buf = await resp.arrayBuffer();
+  }
+
+  await verify(path, buf);
+  const type = resp.headers.get("Content-Type") ?? "application/octet-stream";
+  await (await openCache()).put(path, new Response(buf, { headers: { "Content-Type": type } }));
+  return buf;
+}
+
+// Cached copy when it verifies, otherwise a fresh download
+export async function loadAsset(path: string): Promise<ArrayBuffer> {
+  const cache = await openCache().catch(() => null);
+  const hit = await cache?.match(path);
+  if (hit) {
+    const buf = await hit.arrayBuffer();
+    try {
+      await verify(path, buf);
+      return buf;
+    } catch (e) {
+      console.warn(`Discarding cached ${path}`, e);
+      await cache!.delete(path);
+    }
+  }
+  if (!cache) {
+    const resp = await fetch(path);
+    if (!resp.ok) throw new Error(`Fetch of ${path} failed: ${resp.status} ${resp.statusText}`);
+    const buf = await resp.arrayBuffer();
+    await verify(path, buf);
+    return buf;
+  }
+  return downloadAsset(path);
+}
+
+// Object URL for a verified copy, for loaders that only take URLs (WASM glue / binary)
+export async function assetObjectUrl(path: string) {
+  const type = path.endsWith(".js") ? "text/javascript" : path.endsWith(".wasm") ? "application/wasm" : "";
+  return URL.createObjectURL(new Blob([await loadAsset(path)], { type }));
+}
+
+// Throws when Cache Storage is unavailable
+export async function removeAssets(paths: string[]) {
+  const cache = await openCache();
+  await Promise.all(paths.map((p) => cache.delete(p)));
+}
+
+/** --------- STATUS ---------- */
+
+export async function assetStatus(paths: string[]): Promise<AssetStatus[]> {
+  const manifest = await assetManifest();
+  const cache = await openCache();
+  return Promise.all(
+    paths.map(async (path) => {
+      const hit = await cache.match(path);
+      const size = hit ? Number(hit.headers.get("Content-Length")) || (await hit.blob()).size : 0;
+      const expected = manifest.assets[path];
+      return { path, cached: !!hit, bytes: hit ? size : expected?.bytes ?? 0, checksum: !!expected };
+    })
+  );
+}
+
+export async function storageUsage() {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+  return { usage, quota, persisted };
+}
+
+// Asks the browser not to evict the cache under storage pressure
+export async function requestPersistentStorage() {
+  return navigator.storage?.persist ? navigator.storage.persist() : false;
+}
+
+// First run: make sure the runtime and the selected model are available offline
+export async function ensureOfflineAssets(
+  variant: PoseModelVariant = modelSettings().variant,
+  onProgress?: (p: AssetProgress) => void
+) {
+  const paths = [...(await runtimeAssetPaths()), MODEL_VARIANTS[variant].path];
+  const status = await assetStatus(paths);
+  const missing = status.filter((s) => !s.cached).map((s) => s.path);
+  for (const path of missing) await downloadAsset(path, onProgress);
+  if (missing.length) await requestPersistentStorage();
+  return missing;
+}
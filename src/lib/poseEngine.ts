@@ -1,38 +1,137 @@
 import {
-  FilesetResolver,
   PoseLandmarker,
   type PoseLandmarkerResult,
 } from "@mediapipe/tasks-vision";
+import { assetObjectUrl, loadAsset, runtimeAssetPaths } from "./offlineAssets";
+import {
+  MODEL_VARIANTS,
+  modelKey,
+  modelSettings,
+  setActiveModel,
+  type ModelInfo,
+  type ModelSettings,
+  type PoseModelVariant,
+} from "./poseModels";
 
 export type PoseMode = "IMAGE" | "VIDEO";
 
 let landmarker: PoseLandmarker | null = null;
+let loaded: { key: string; info: ModelInfo } | null = null;
+let loading: { key: string; promise: Promise<PoseLandmarker> } | null = null;
+// VIDEO mode rejects timestamps that do not increase
+let lastVideoTs = -1;
+// Kept across recreation, which starts the landmarker in single-person mode
+let numPosesSetting = 1;
+
+// ✅ Models come from the verified offline cache (downloaded on first use)
+async function fetchModel(variant: PoseModelVariant) {
+  return new Uint8Array(await loadAsset(MODEL_VARIANTS[variant].path));
+}
+
+/**
+ * Loads the WASM runtime and the selected model; shared by the main thread and the pose
+ * worker. A missing full/heavy model falls back to lite and a failed GPU init to the CPU
+ * delegate; `info` describes what was actually created.
+ */
+export async function createLandmarker(
+  settings: ModelSettings = modelSettings()
+): Promise<{ landmarker: PoseLandmarker; info: ModelInfo }> {
+  // The SIMD / non-SIMD build this browser supports, served from the offline cache
+  const [loaderPath, binaryPath] = await runtimeAssetPaths();
+  const vision = {
+    wasmLoaderPath: await assetObjectUrl(loaderPath),
+    wasmBinaryPath: await assetObjectUrl(binaryPath),
+  };
+  const notes: string[] = [];
+
+  let variant = settings.variant;
+  let bytes: Uint8Array;
+  try {
+    bytes = await fetchModel(variant);
+  } catch (e: any) {
+    if (variant === "lite") throw e;
+    console.warn(`${MODEL_VARIANTS[variant].label} model unavailable, using Lite`, e);
+    notes.push(`${MODEL_VARIANTS[variant].label} model unavailable, using Lite`);
+    variant = "lite";
+    bytes = await fetchModel(variant);
+  }
+
+  const create = (delegate: ModelInfo["delegate"]) =>
+    PoseLandmarker.createFromOptions(vision, {
+      baseOptions: { modelAssetBuffer: bytes, delegate },
+      runningMode: "VIDEO",
+      numPoses: 1,
+    });
+
+  try {
+    if (settings.delegate === "GPU") {
+      try {
+        return { landmarker: await create("GPU"), info: { variant, delegate: "GPU", note: notes.join("; ") || undefined } };
+      } catch (e) {
+        console.warn("GPU delegate failed, falling back to CPU", e);
+        notes.push("GPU unavailable, using CPU");
+      }
+    }
+    return { landmarker: await create("CPU"), info: { variant, delegate: "CPU", note: notes.join("; ") || undefined } };
+  } finally {
+    URL.revokeObjectURL(vision.wasmLoaderPath);
+    URL.revokeObjectURL(vision.wasmBinaryPath);
+  }
+}
 
+// Creates the main-thread landmarker, or recreates it when the model settings changed
 export async function initPoseLandmarker() {
-  if (landmarker) return landmarker;
+  const settings = modelSettings();
+  const key = modelKey(settings);
+  if (landmarker && loaded?.key === key) return landmarker;
+  if (loading?.key === key) return loading.promise;
 
-  const vision = await FilesetResolver.forVisionTasks("/wasm");
+  // Concurrent callers (StrictMode effects, quick tab switches) share one load
+  const promise: Promise<PoseLandmarker> = createLandmarker(settings)
+    .then(async (created) => {
+      closePoseLandmarker();
+      landmarker = created.landmarker;
+      loaded = { key, info: created.info };
+      lastVideoTs = -1;
+      if (numPosesSetting > 1) await created.landmarker.setOptions({ numPoses: numPosesSetting });
+      return created.landmarker;
+    })
+    .finally(() => {
+      if (loading?.promise === promise) loading = null;
+    });
+  loading = { key, promise };
+  return promise;
+}
 
-  // ✅ Fetch model explicitly so we can validate it
-  const resp = await fetch("/models/pose_landmarker_lite.task");
-  if (!resp.ok) throw new Error(`Model fetch failed: ${resp.status} ${resp.statusText}`);
-  const buf = await resp.arrayBuffer();
-const bytes = new Uint8Array(buf);
-  if (buf.byteLength < 500_000) throw new Error(`Model file too small (${buf.byteLength} bytes). Wrong file/404 saved?`);
+/**
+ * Starts a new VIDEO timeline: VIDEO mode keeps tracking state from earlier frames and only
+ * takes increasing timestamps, so a run that must not depend on what ran before it gets a
+ * freshly created landmarker.
+ */
+export async function restartVideoLandmarker() {
+  closePoseLandmarker();
+  await initPoseLandmarker();
+}
 
-  landmarker = await PoseLandmarker.createFromOptions(vision, {
-    baseOptions: {
-  modelAssetBuffer: bytes,
-  delegate: "GPU",
-},
-    runningMode: "VIDEO",
-    numPoses: 1,
-  });
+export function closePoseLandmarker() {
+  landmarker?.close();
+  landmarker = null;
+  loaded = null;
+}
 
-  return landmarker;
+// Model and delegate of the main-thread landmarker (null until initialised)
+export function landmarkerInfo() {
+  return loaded?.info ?? null;
 }
 
 
+// Max people detected per frame (1 = single-person mode)
+export async function setNumPoses(numPoses: number) {
+  numPosesSetting = Math.max(1, Math.round(numPoses));
+  if (!landmarker) return;
+  await landmarker.setOptions({ numPoses: numPosesSetting });
+}
+
 export function setRunningMode(mode: PoseMode) {
   if (!landmarker) return;
   landmarker.setOptions({ runningMode: mode === "IMAGE" ? "IMAGE" : "VIDEO" });
@@ -42,11 +141,14 @@ export function detectOnImage(
   img: HTMLImageElement | HTMLCanvasElement | ImageBitmap | OffscreenCanvas
 ): PoseLandmarkerResult | null {
   if (!landmarker) return null;
+  setActiveModel(loaded!.info);
   return landmarker.detect(img);
 }
 
 
 export function detectOnVideo(video: HTMLVideoElement, timestampMs: number): PoseLandmarkerResult | null {
   if (!landmarker) return null;
-  return landmarker.detectForVideo(video, timestampMs);
+  setActiveModel(loaded!.info);
+  lastVideoTs = Math.max(Math.round(timestampMs), lastVideoTs + 1);
+  return landmarker.detectForVideo(video, lastVideoTs);
 }
@@ -1,8 +1,28 @@
 import type { PoseLandmarkerResult } from "@mediapipe/tasks-vision";
-import { buildLeverReport } from "./leverAnalysis";
-
-
-type Pt = { x: number; y: number; z?: number; visibility?: number };
+import { buildLeverReport, type LeverUnits } from "./leverAnalysis";
+import type { Biomechanics, BodyInputs } from "./biomechanics";
+import { activeCalibration, calibrationRef, type Calibration, type CalibrationRef } from "./calibration";
+import { resolveView, viewWeight, type ViewResult, type ViewSetting } from "./cameraView";
+import { activeModel, type ModelInfo } from "./poseModels";
+import { computeRula, type RulaInputs, type RulaResult } from "./rula";
+import { computeReba, type RebaInputs, type RebaResult } from "./reba";
+import type { NioshInputs } from "./niosh";
+import { measureSegments } from "./segmentAngles";
+import { RULE_BELOW, RULE_IDS, activeProfile, type RuleId, type RuleProfile } from "./ruleProfiles";
+import {
+  KP,
+  angleBetween,
+  bodyAxes,
+  frameConfidence,
+  jointAngle,
+  mid,
+  poseFrame,
+  sub,
+  type GeometryBasis,
+  type PoseFrame,
+  type Vec3,
+  type VisibilityOptions,
+} from "./geometry";
 
 export type IssueSeverity = "OK" | "MILD" | "HIGH";
 
@@ -13,6 +33,7 @@ export type PostureIssue = {
   measured: string;
   whyItMatters: string;
   fix: string;
+  confidence?: number;        // 0..1, lowest visibility of the joints measured
 };
 
 export type StrainLevel = "Low" | "Medium" | "High";
@@ -22,6 +43,10 @@ export type LeverMetrics = {
   lowBackMomentIndex: number;
   strainIndex: number;
   strainLevel: StrainLevel;
+  basis?: GeometryBasis;
+  confidence?: number;
+  units?: LeverUnits;         // real-unit distances and moments (world basis or calibrated camera)
+  biomech?: Biomechanics;     // segment-mass model: L5/S1 and shoulder moments, disc compression
   // Optional extras added by other pages (live/photo/video)
   force?: { level: StrainLevel; value: number };
   points?: any;
@@ -32,8 +57,32 @@ export type PostureReport = {
   score: number;              // 0–100
   risk: StrainLevel;
   angles: Record<string, number>;
+  basis: GeometryBasis;       // "world" = 3D metres, "image" = 2D fallback
+  lengthUnit: "cm" | "%";     // unit of shoulderSlope / reach (cm needs world landmarks or calibration)
+  angleConfidence: Record<string, number>;  // 0..1 per angle key
+  minVisibility: number;      // threshold below which a measurement is low-confidence
   issues: PostureIssue[];
   lever?: LeverMetrics;
+  rula?: RulaResult;
+  reba?: RebaResult;
+  profile?: { id: string; name: string };   // rule profile the issues were evaluated with
+  calibration?: CalibrationRef;             // camera calibration used for real units
+  model?: ModelInfo;                        // pose model variant and delegate that produced the landmarks
+  view?: ViewResult;                        // camera view the rules were weighted for
+};
+
+// User-supplied inputs for the standards-based assessments
+export type ReportOptions = {
+  rula?: RulaInputs;
+  reba?: RebaInputs;
+  niosh?: NioshInputs;        // used per lift event, not per frame
+  visibility?: VisibilityOptions;
+  profile?: RuleProfile;      // defaults to the active profile from settings
+  calibration?: Calibration | null;   // defaults to the active station; null = uncalibrated
+  body?: BodyInputs;          // body mass, stature and hand load for the biomechanical model
+  model?: ModelInfo | null;   // defaults to the model behind the latest detection
+  view?: ViewSetting;         // camera view override; defaults to auto-detection
+  trackedView?: ViewResult | null;    // view already resolved over time (AnalysisSession.view); replaces `view`
 };
 
 function toStrainLevel(x: any): StrainLevel {
@@ -41,181 +90,230 @@ function toStrainLevel(x: any): StrainLevel {
 }
 
 
-// MediaPipe Pose landmark indices
-const KP = {
-  LEFT_SHOULDER: 11,
-  RIGHT_SHOULDER: 12,
-  LEFT_ELBOW: 13,
-  RIGHT_ELBOW: 14,
-  LEFT_WRIST: 15,
-  RIGHT_WRIST: 16,
-  LEFT_HIP: 23,
-  RIGHT_HIP: 24,
-  LEFT_KNEE: 25,
-  RIGHT_KNEE: 26,
-  LEFT_ANKLE: 27,
-  RIGHT_ANKLE: 28,
-  LEFT_EAR: 7,
-  RIGHT_EAR: 8,
+const SHOULDERS = [KP.LEFT_SHOULDER, KP.RIGHT_SHOULDER];
+const TRUNK = [...SHOULDERS, KP.LEFT_HIP, KP.RIGHT_HIP];
+
+// Landmarks each angle is measured from
+const ANGLE_JOINTS: Record<string, number[]> = {
+  leftElbow: [KP.LEFT_SHOULDER, KP.LEFT_ELBOW, KP.LEFT_WRIST],
+  rightElbow: [KP.RIGHT_SHOULDER, KP.RIGHT_ELBOW, KP.RIGHT_WRIST],
+  leftKnee: [KP.LEFT_HIP, KP.LEFT_KNEE, KP.LEFT_ANKLE],
+  rightKnee: [KP.RIGHT_HIP, KP.RIGHT_KNEE, KP.RIGHT_ANKLE],
+  trunkFlexion: TRUNK,
+  neckFlexion: [...TRUNK, KP.LEFT_EAR, KP.RIGHT_EAR],
+  leftShoulderFlexion: [...TRUNK, KP.LEFT_ELBOW],
+  rightShoulderFlexion: [...TRUNK, KP.RIGHT_ELBOW],
+  leftShoulderAbduction: [...TRUNK, KP.LEFT_ELBOW],
+  rightShoulderAbduction: [...TRUNK, KP.RIGHT_ELBOW],
+  neckTilt: [...SHOULDERS, KP.LEFT_EAR, KP.RIGHT_EAR],
+  shoulderSlope: SHOULDERS,
+  reach: [...SHOULDERS, KP.LEFT_WRIST, KP.RIGHT_WRIST],
 };
 
-function mid(a: Pt, b: Pt): Pt {
-  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
-}
-
-function getKp(result: PoseLandmarkerResult, idx: number): Pt | null {
-  const lm = result.landmarks?.[0];
-  if (!lm || !lm[idx]) return null;
-  return { x: lm[idx].x, y: lm[idx].y, z: lm[idx].z, visibility: lm[idx].visibility };
-}
+// Angle each issue rule reads
+const ISSUE_ANGLE: Record<RuleId, string> = {
+  "neck-tilt": "neckTilt",
+  "shoulder-slope": "shoulderSlope",
+  reach: "reach",
+  "left-knee": "leftKnee",
+  "right-knee": "rightKnee",
+};
 
-function dist(a: Pt, b: Pt) {
-  const dx = a.x - b.x;
-  const dy = a.y - b.y;
-  return Math.hypot(dx, dy);
-}
+// Fixed wording per rule; thresholds, severities and fix overrides come from the rule profile
+const ISSUE_TEXT: Record<
+  RuleId,
+  { title: string; whyItMatters: string; fix: string; measured: (v: number, metric: boolean) => string }
+> = {
+  "neck-tilt": {
+    title: "Neck bent / forward head posture",
+    measured: (v) => `Neck tilt ~ ${Math.round(v)}°`,
+    whyItMatters: "Increases load on cervical spine and can cause neck/shoulder pain.",
+    fix: "Bring screen to eye level, tuck chin slightly, keep ears over shoulders."
+  },
+  "shoulder-slope": {
+    title: "Uneven shoulders",
+    measured: (v, metric) => `Height difference ~ ${v.toFixed(1)}${metric ? " cm" : "%"}`,
+    whyItMatters: "Asymmetry may increase strain on neck and upper back.",
+    fix: "Relax shoulders, adjust chair/armrests, center your posture."
+  },
+  reach: {
+    title: "Hands reaching away from body",
+    measured: (v, metric) => `Reach offset ~ ${v.toFixed(0)}${metric ? " cm" : "%"}`,
+    whyItMatters: "Longer reach increases lever arm and shoulder/low-back load.",
+    fix: "Bring work closer, keep elbows near body, reduce forward reach."
+  },
+  "left-knee": {
+    title: "Left knee bent (sustained)",
+    measured: (v) => `Left knee angle ~ ${Math.round(v)}°`,
+    whyItMatters: "Sustained knee bend can increase fatigue and discomfort.",
+    fix: "Adjust seat height/foot placement so knees are closer to neutral."
+  },
+  "right-knee": {
+    title: "Right knee bent (sustained)",
+    measured: (v) => `Right knee angle ~ ${Math.round(v)}°`,
+    whyItMatters: "Sustained knee bend can increase fatigue and discomfort.",
+    fix: "Adjust seat height/foot placement so knees are closer to neutral."
+  },
+};
 
-function angleDeg(a: Pt, b: Pt, c: Pt) {
-  // angle at b between BA and BC
-  const abx = a.x - b.x;
-  const aby = a.y - b.y;
-  const cbx = c.x - b.x;
-  const cby = c.y - b.y;
-  const dot = abx * cbx + aby * cby;
-  const mag = Math.hypot(abx, aby) * Math.hypot(cbx, cby);
-  if (!mag) return 0;
-  const v = Math.max(-1, Math.min(1, dot / mag));
-  return (Math.acos(v) * 180) / Math.PI;
+function getKp(frame: PoseFrame, idx: number): Vec3 | null {
+  return frame.points[idx] ?? null;
 }
 
 function clamp(n: number, a: number, b: number) {
   return Math.max(a, Math.min(b, n));
 }
 
-export function buildReport(result: PoseLandmarkerResult | null): PostureReport | null {
-  if (!result?.landmarks?.[0]?.length) return null;
-
-  const ls = getKp(result, KP.LEFT_SHOULDER);
-  const rs = getKp(result, KP.RIGHT_SHOULDER);
-  const le = getKp(result, KP.LEFT_ELBOW);
-  const re = getKp(result, KP.RIGHT_ELBOW);
-  const lw = getKp(result, KP.LEFT_WRIST);
-  const rw = getKp(result, KP.RIGHT_WRIST);
-  const lh = getKp(result, KP.LEFT_HIP);
-  const rh = getKp(result, KP.RIGHT_HIP);
-  const lk = getKp(result, KP.LEFT_KNEE);
-  const rk = getKp(result, KP.RIGHT_KNEE);
-  const la = getKp(result, KP.LEFT_ANKLE);
-  const ra = getKp(result, KP.RIGHT_ANKLE);
-  const lear = getKp(result, KP.LEFT_EAR);
-  const rear = getKp(result, KP.RIGHT_EAR);
+export function buildReport(
+  result: PoseLandmarkerResult | null,
+  options: ReportOptions = {}
+): PostureReport | null {
+  const frame = poseFrame(result, options.visibility);
+  if (!frame) return null;
+  const axes = bodyAxes(frame);
+  if (!axes) return null;
+
+  const is3d = frame.basis === "world";
+
+  const ls = getKp(frame, KP.LEFT_SHOULDER);
+  const rs = getKp(frame, KP.RIGHT_SHOULDER);
+  const le = getKp(frame, KP.LEFT_ELBOW);
+  const re = getKp(frame, KP.RIGHT_ELBOW);
+  const lw = getKp(frame, KP.LEFT_WRIST);
+  const rw = getKp(frame, KP.RIGHT_WRIST);
+  const lh = getKp(frame, KP.LEFT_HIP);
+  const rh = getKp(frame, KP.RIGHT_HIP);
+  const lk = getKp(frame, KP.LEFT_KNEE);
+  const rk = getKp(frame, KP.RIGHT_KNEE);
+  const la = getKp(frame, KP.LEFT_ANKLE);
+  const ra = getKp(frame, KP.RIGHT_ANKLE);
+  const lear = getKp(frame, KP.LEFT_EAR);
+  const rear = getKp(frame, KP.RIGHT_EAR);
 
   if (!ls || !rs || !lh || !rh) return null;
 
-  const shoulderMid = mid(ls, rs);
-  const hipMid = mid(lh, rh);
+  const shoulderMid = axes.shoulderMid;
 
   const angles: Record<string, number> = {};
 
   // Elbow angles
-  if (ls && le && lw) angles.leftElbow = angleDeg(ls, le, lw);
-  if (rs && re && rw) angles.rightElbow = angleDeg(rs, re, rw);
+  if (ls && le && lw) angles.leftElbow = jointAngle(ls, le, lw);
+  if (rs && re && rw) angles.rightElbow = jointAngle(rs, re, rw);
 
   // Knee angles
-  if (lh && lk && la) angles.leftKnee = angleDeg(lh, lk, la);
-  if (rh && rk && ra) angles.rightKnee = angleDeg(rh, rk, ra);
+  if (lh && lk && la) angles.leftKnee = jointAngle(lh, lk, la);
+  if (rh && rk && ra) angles.rightKnee = jointAngle(rh, rk, ra);
+
+  // Segment angles (true 3D with world landmarks, sagittal-plane estimate in 2D); measured
+  // once per frame and shared with RULA and REBA
+  const seg = measureSegments(frame);
+  if (seg) {
+    angles.trunkFlexion = seg.trunkFlexion;
+    if (seg.neckFlexion !== undefined) angles.neckFlexion = seg.neckFlexion;
+    for (const side of ["left", "right"] as const) {
+      const arm = seg[side];
+      if (!arm) continue;
+      angles[`${side}ShoulderFlexion`] = arm.upperArmFlexion;
+      if (arm.upperArmAbduction !== undefined) angles[`${side}ShoulderAbduction`] = arm.upperArmAbduction;
+    }
+  }
 
-  // Trunk/neck heuristics
-  // Approx "neck tilt" based on ears vs shoulder mid
+  // Neck tilt: ears vs shoulder mid, measured from vertical
   if (lear && rear) {
-    const earMid = mid(lear, rear);
-    const dy = shoulderMid.y - earMid.y;
-    const dx = earMid.x - shoulderMid.x;
-    const neckTilt = Math.atan2(dx, dy) * (180 / Math.PI);
-    angles.neckTilt = Math.abs(neckTilt);
+    angles.neckTilt = angleBetween(sub(mid(lear, rear), shoulderMid), axes.up);
   }
 
-  // Shoulder elevation asymmetry
-  angles.shoulderSlope = Math.abs(ls.y - rs.y) * 100;
+  // Lengths are metres in the world basis (rescaled to the calibrated person) and become
+  // metres in the image basis only with a calibrated camera
+  const calibration = options.calibration === undefined ? activeCalibration() : options.calibration;
+  const metric = is3d || !!calibration;
+  const yScale = is3d ? calibration?.worldScale ?? 1 : calibration?.metersPerUnit ?? 1;
+  const xScale = is3d ? yScale : calibration ? calibration.metersPerUnit * calibration.aspect : 1;
+
+  // Shoulder elevation asymmetry (cm when metric, else % of frame height)
+  angles.shoulderSlope = Math.abs(ls.y - rs.y) * yScale * 100;
 
-  // Forward reach estimate (hands forward relative to shoulder)
+  // Forward reach estimate (hands relative to shoulders; horizontal cm when metric,
+  // else % of frame width)
   if (lw && rw) {
-    const wristMid = mid(lw, rw);
-    angles.reach = Math.abs(wristMid.x - shoulderMid.x) * 100;
+    const d = sub(mid(lw, rw), shoulderMid);
+    angles.reach = (is3d ? Math.hypot(d.x, d.z) : Math.abs(d.x)) * xScale * 100;
   }
 
+  const angleConfidence: Record<string, number> = {};
+  for (const k of Object.keys(angles)) angleConfidence[k] = frameConfidence(frame, ANGLE_JOINTS[k] ?? []);
+
+  const profile = options.profile ?? activeProfile();
   const issues: PostureIssue[] = [];
+  // Rules measured poorly from this camera view count less; unmeasurable ones are skipped
+  const view = options.trackedView !== undefined ? options.trackedView : resolveView(result, options.view);
+  const weight = (key: string) => (view ? viewWeight(view.view, key) : 1);
 
-  if (angles.neckTilt !== undefined && angles.neckTilt > 18) {
-    issues.push({
-      id: "neck-tilt",
-      title: "Neck bent / forward head posture",
-      severity: angles.neckTilt > 28 ? "HIGH" : "MILD",
-      measured: `Neck tilt ~ ${Math.round(angles.neckTilt)}°`,
-      whyItMatters: "Increases load on cervical spine and can cause neck/shoulder pain.",
-      fix: "Bring screen to eye level, tuck chin slightly, keep ears over shoulders."
-    });
-  }
+  for (const id of RULE_IDS) {
+    const rule = profile.rules[id];
+    const value = angles[ISSUE_ANGLE[id]];
+    if (!rule?.enabled || value === undefined || weight(ISSUE_ANGLE[id]) === 0) continue;
 
-  if (angles.shoulderSlope !== undefined && angles.shoulderSlope > 4.5) {
-    issues.push({
-      id: "shoulder-slope",
-      title: "Uneven shoulders",
-      severity: angles.shoulderSlope > 8 ? "HIGH" : "MILD",
-      measured: `Height difference ~ ${angles.shoulderSlope.toFixed(1)}%`,
-      whyItMatters: "Asymmetry may increase strain on neck and upper back.",
-      fix: "Relax shoulders, adjust chair/armrests, center your posture."
-    });
-  }
+    // Knee rules trigger below the threshold, the others above it; metric lengths use the cm limits
+    const limits = metric && rule.cm ? rule.cm : rule;
+    const past = (limit: number) => (RULE_BELOW[id] ? value < limit : value > limit);
+    if (!past(limits.mild)) continue;
 
-  if (angles.reach !== undefined && angles.reach > 18) {
+    const text = ISSUE_TEXT[id];
     issues.push({
-      id: "reach",
-      title: "Hands reaching away from body",
-      severity: angles.reach > 30 ? "HIGH" : "MILD",
-      measured: `Reach offset ~ ${angles.reach.toFixed(0)}%`,
-      whyItMatters: "Longer reach increases lever arm and shoulder/low-back load.",
-      fix: "Bring work closer, keep elbows near body, reduce forward reach."
+      id,
+      title: text.title,
+      severity: past(limits.high) && rule.maxSeverity === "HIGH" ? "HIGH" : "MILD",
+      measured: text.measured(value, metric) + (weight(ISSUE_ANGLE[id]) < 1 ? " · less reliable from this camera view" : ""),
+      whyItMatters: text.whyItMatters,
+      fix: rule.fix ?? text.fix,
     });
   }
 
-  // Knee extension warnings
-  if (angles.leftKnee !== undefined && angles.leftKnee < 155) {
-    issues.push({
-      id: "left-knee",
-      title: "Left knee bent (sustained)",
-      severity: angles.leftKnee < 130 ? "HIGH" : "MILD",
-      measured: `Left knee angle ~ ${Math.round(angles.leftKnee)}°`,
-      whyItMatters: "Sustained knee bend can increase fatigue and discomfort.",
-      fix: "Adjust seat height/foot placement so knees are closer to neutral."
-    });
-  }
-  if (angles.rightKnee !== undefined && angles.rightKnee < 155) {
-    issues.push({
-      id: "right-knee",
-      title: "Right knee bent (sustained)",
-      severity: angles.rightKnee < 130 ? "HIGH" : "MILD",
-      measured: `Right knee angle ~ ${Math.round(angles.rightKnee)}°`,
-      whyItMatters: "Sustained knee bend can increase fatigue and discomfort.",
-      fix: "Adjust seat height/foot placement so knees are closer to neutral."
-    });
+  for (const i of issues) {
+    const key = ISSUE_ANGLE[i.id as RuleId];
+    if (key) i.confidence = angleConfidence[key] * weight(key);
   }
 
   // Score heuristic
   let score = 100;
-  for (const i of issues) score -= i.severity === "HIGH" ? 18 : 9;
-  score = clamp(score, 0, 100);
-
-  const risk = score >= 80 ? "Low" : score >= 55 ? "Medium" : "High";
-  const lever = buildLeverReport(result, angles);
-
-
-  return { score, risk, angles, issues, lever: lever ? {
-  shoulderMomentIndex: lever.shoulderMomentIndex,
-  lowBackMomentIndex: lever.lowBackMomentIndex,
-  strainIndex: lever.strainIndex,
-  strainLevel: toStrainLevel(lever.strainLevel)
-} : undefined };
-
-  
+  for (const i of issues) {
+    const penalty = i.severity === "HIGH" ? profile.penalties.HIGH : profile.penalties.MILD;
+    score -= penalty * weight(ISSUE_ANGLE[i.id as RuleId]);
+  }
+  score = clamp(Math.round(score), 0, 100);
+
+  const risk = score >= profile.riskBands.low ? "Low" : score >= profile.riskBands.medium ? "Medium" : "High";
+  const lever = buildLeverReport(result, angles, options.visibility, calibration, options.body);
+  const rula = computeRula(seg, options.rula) ?? undefined;
+  const reba = computeReba(seg, options.reba) ?? undefined;
+
+  return {
+    score,
+    risk,
+    angles,
+    basis: frame.basis,
+    lengthUnit: metric ? "cm" : "%",
+    angleConfidence,
+    minVisibility: frame.threshold,
+    issues,
+    rula,
+    reba,
+    profile: { id: profile.id, name: profile.name },
+    calibration: calibration ? calibrationRef(calibration) : undefined,
+    model: (options.model === undefined ? activeModel() : options.model) ?? undefined,
+    view: view ?? undefined,
+    lever: lever
+      ? {
+          shoulderMomentIndex: lever.shoulderMomentIndex,
+          lowBackMomentIndex: lever.lowBackMomentIndex,
+          strainIndex: lever.strainIndex,
+          strainLevel: toStrainLevel(lever.strainLevel),
+          basis: lever.basis,
+          confidence: lever.confidence,
+          units: lever.units,
+          biomech: lever.biomech,
+        }
+      : undefined,
+  };
 }
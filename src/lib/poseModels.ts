@@ -0,0 +1,68 @@
+// Pose model variants and delegate choice. Landmarkers are built from these settings by
+// poseEngine (main thread) and the pose worker; both report what they actually loaded.
+
+import { storedSetting } from "./storage";
+
+export type PoseModelVariant = "lite" | "full" | "heavy";
+export type PoseDelegate = "GPU" | "CPU";
+
+export type ModelSettings = {
+  variant: PoseModelVariant;
+  delegate: PoseDelegate;       // GPU falls back to CPU when it cannot be initialised
+};
+
+// What a landmarker was really created with
+export type ModelInfo = {
+  variant: PoseModelVariant;
+  delegate: PoseDelegate;
+  note?: string;                // fallbacks taken, e.g. "GPU unavailable, using CPU"
+};
+
+export const MODEL_VARIANTS: Record<PoseModelVariant, { label: string; path: string; description: string }> = {
+  lite: { label: "Lite", path: "/models/pose_landmarker_lite.task", description: "Fastest; best for live camera" },
+  full: { label: "Full", path: "/models/pose_landmarker_full.task", description: "Balanced accuracy and speed" },
+  heavy: { label: "Heavy", path: "/models/pose_landmarker_heavy.task", description: "Most accurate; slow on phones" },
+};
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = { variant: "lite", delegate: "GPU" };
+
+// Anything smaller is an error page or a truncated download, not a model
+export const MIN_MODEL_BYTES = 500_000;
+
+export function modelKey(s: ModelSettings) {
+  return `${s.variant}/${s.delegate}`;
+}
+
+export function modelLabel(info: ModelInfo) {
+  return `${MODEL_VARIANTS[info.variant].label} · ${info.delegate}`;
+}
+
+/** --------- SETTINGS (localStorage) ---------- */
+const SETTINGS_KEY = "ergofit.poseModel";
+
+const settingsStore = storedSetting<ModelSettings>(SETTINGS_KEY, (stored) => {
+  const saved = { ...DEFAULT_MODEL_SETTINGS, ...stored };
+  return MODEL_VARIANTS[saved.variant as PoseModelVariant] ? saved : DEFAULT_MODEL_SETTINGS;
+});
+
+export function modelSettings(): ModelSettings {
+  return settingsStore.get();
+}
+
+// Landmarkers are recreated with the new settings the next time a page initialises them
+export function saveModelSettings(settings: ModelSettings) {
+  settingsStore.save(settings);
+}
+
+/** --------- ACTIVE MODEL ---------- */
+
+// Model behind the most recent detection; reports record it by default
+let active: ModelInfo | null = null;
+
+export function activeModel() {
+  return active;
+}
+
+export function setActiveModel(info: ModelInfo | null) {
+  active = info;
+}
@@ -0,0 +1,114 @@
+import type { PoseLandmarkerResult } from "@mediapipe/tasks-vision";
+
+type Pt = { x: number; y: number };
+
+export type TrackedPose = {
+  id: number;
+  color: string;
+  // Single-person view of the detection, so every analyzer can keep reading landmarks[0]
+  result: PoseLandmarkerResult;
+  centroid: Pt;
+};
+
+export type TrackerOptions = {
+  maxDistance?: number;   // max centroid jump between frames (normalized image units)
+  maxMissed?: number;     // frames a track survives without a matching detection
+};
+
+export type PoseTracker = {
+  update: (res: PoseLandmarkerResult | null) => TrackedPose[];
+  reset: () => void;
+};
+
+export const TRACK_COLORS = ["#38bdf8", "#f472b6", "#a3e635", "#fb923c", "#c084fc", "#facc15"];
+
+// Torso landmarks: shoulders + hips
+const TORSO = [11, 12, 23, 24];
+
+type Track = { id: number; centroid: Pt; missed: number };
+
+function centroidOf(lm: { x: number; y: number }[]): Pt | null {
+  const pts = TORSO.map((i) => lm[i]).filter(Boolean);
+  if (!pts.length) return null;
+  return {
+    x: pts.reduce((a, p) => a + p.x, 0) / pts.length,
+    y: pts.reduce((a, p) => a + p.y, 0) / pts.length,
+  };
+}
+
+export function trackColor(id: number) {
+  return TRACK_COLORS[(Math.max(1, id) - 1) % TRACK_COLORS.length];
+}
+
+// Splits a multi-pose detection into one single-person result per pose
+export function splitPoses(res: PoseLandmarkerResult | null): PoseLandmarkerResult[] {
+  if (!res?.landmarks?.length) return [];
+  return res.landmarks.map(
+    (lm, i) =>
+      ({
+        ...res,
+        landmarks: [lm],
+        worldLandmarks: res.worldLandmarks?.[i] ? [res.worldLandmarks[i]] : [],
+        segmentationMasks: res.segmentationMasks?.[i] ? [res.segmentationMasks[i]] : undefined,
+      }) as PoseLandmarkerResult
+  );
+}
+
+/**
+ * Gives each detected person a stable ID across frames by greedy
+ * nearest-centroid association of the torso landmarks.
+ */
+export function createPoseTracker(options: TrackerOptions = {}): PoseTracker {
+  const maxDistance = options.maxDistance ?? 0.15;
+  const maxMissed = options.maxMissed ?? 15;
+
+  let tracks: Track[] = [];
+  let nextId = 1;
+
+  function update(res: PoseLandmarkerResult | null): TrackedPose[] {
+    const detections = splitPoses(res)
+      .map((result) => ({ result, centroid: centroidOf(result.landmarks[0]) }))
+      .filter((d): d is { result: PoseLandmarkerResult; centroid: Pt } => d.centroid !== null);
+
+    // All (track, detection) pairs within range, closest first
+    const pairs: { t: number; d: number; dist: number }[] = [];
+    tracks.forEach((tr, t) =>
+      detections.forEach((det, d) => {
+        const dist = Math.hypot(tr.centroid.x - det.centroid.x, tr.centroid.y - det.centroid.y);
+        if (dist <= maxDistance) pairs.push({ t, d, dist });
+      })
+    );
+    pairs.sort((a, b) => a.dist - b.dist);
+
+    const trackFor = new Map<number, Track>();
+    const usedTracks = new Set<number>();
+    for (const { t, d } of pairs) {
+      if (usedTracks.has(t) || trackFor.has(d)) continue;
+      usedTracks.add(t);
+      trackFor.set(d, tracks[t]);
+    }
+
+    // Age unmatched tracks, drop stale ones
+    tracks = tracks.filter((tr, t) => usedTracks.has(t) || ++tr.missed <= maxMissed);
+
+    const out: TrackedPose[] = detections.map((det, d) => {
+      let tr = trackFor.get(d);
+      if (!tr) {
+        tr = { id: nextId++, centroid: det.centroid, missed: 0 };
+        tracks.push(tr);
+      }
+      tr.centroid = det.centroid;
+      tr.missed = 0;
+      return { id: tr.id, color: trackColor(tr.id), result: det.result, centroid: det.centroid };
+    });
+
+    return out.sort((a, b) => a.id - b.id);
+  }
+
+  function reset() {
+    tracks = [];
+    nextId = 1;
+  }
+
+  return { update, reset };
+}
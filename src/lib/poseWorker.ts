@@ -0,0 +1,57 @@
+import type { PoseLandmarker } from "@mediapipe/tasks-vision";
+import { createLandmarker } from "./poseEngine";
+import { modelKey, type ModelInfo } from "./poseModels";
+import type { PoseWorkerReply, PoseWorkerRequest } from "./poseWorkerClient";
+
+// Pose inference worker (see poseWorkerClient.ts). The GPU delegate renders to an
+// OffscreenCanvas here, so the page's main thread only captures frames. It is a classic
+// worker: MediaPipe loads its WASM glue with importScripts, which module workers reject.
+
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<PoseWorkerRequest>) => void) | null;
+  postMessage: (msg: PoseWorkerReply) => void;
+};
+
+let landmarker: PoseLandmarker | null = null;
+let loaded: { key: string; info: ModelInfo } | null = null;
+// VIDEO mode rejects timestamps that do not increase
+let lastVideoTs = -1;
+// Reapplied to a recreated landmarker, which starts in single-person mode
+let numPoses = 1;
+
+scope.onmessage = async (e) => {
+  const msg = e.data;
+  try {
+    if (msg.type === "init") {
+      // Same model settings: keep the landmarker unless a fresh timeline is asked for;
+      // otherwise close it and load the new one
+      const key = modelKey(msg.settings);
+      if (!landmarker || loaded?.key !== key || msg.fresh) {
+        const created = await createLandmarker(msg.settings);
+        landmarker?.close();
+        landmarker = created.landmarker;
+        loaded = { key, info: created.info };
+        lastVideoTs = -1;
+        if (numPoses > 1) await landmarker.setOptions({ numPoses });
+      }
+      scope.postMessage({ type: "ready", id: msg.id, info: loaded!.info });
+      return;
+    }
+    if (!landmarker) throw new Error("Pose worker is not initialized");
+
+    if (msg.type === "numPoses") {
+      numPoses = msg.numPoses;
+      await landmarker.setOptions({ numPoses });
+      scope.postMessage({ type: "done", id: msg.id });
+      return;
+    }
+
+    lastVideoTs = Math.max(Math.round(msg.tMs), lastVideoTs + 1);
+    const res = landmarker.detectForVideo(msg.frame, lastVideoTs);
+    msg.frame.close();
+    scope.postMessage({ type: "result", id: msg.id, landmarks: res.landmarks, worldLandmarks: res.worldLandmarks });
+  } catch (err: any) {
+    if (msg.type === "detect") msg.frame.close();
+    scope.postMessage({ type: "error", id: msg.id, message: err?.message ?? String(err) });
+  }
+};
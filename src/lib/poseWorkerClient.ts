@@ -0,0 +1,181 @@
+import type { Landmark, NormalizedLandmark, PoseLandmarkerResult } from "@mediapipe/tasks-vision";
+import { detectOnVideo, initPoseLandmarker, restartVideoLandmarker, setNumPoses, setRunningMode } from "./poseEngine";
+import { modelKey, modelSettings, setActiveModel, type ModelInfo, type ModelSettings } from "./poseModels";
+
+// Video inference off the main thread: frames go to a dedicated worker as ImageBitmaps and
+// results come back stamped with their frame time. Falls back to the main-thread landmarker
+// when workers (or the worker's WebGL/WASM setup) are unavailable.
+
+export type PoseWorkerRequest =
+  // fresh: recreate the landmarker even when these settings are loaded
+  | { type: "init"; id: number; settings: ModelSettings; fresh?: boolean }
+  | { type: "detect"; id: number; frame: ImageBitmap; tMs: number }
+  | { type: "numPoses"; id: number; numPoses: number };
+
+export type PoseWorkerReply =
+  | { type: "ready"; id: number; info: ModelInfo }
+  | { type: "result"; id: number; landmarks: NormalizedLandmark[][]; worldLandmarks: Landmark[][] }
+  | { type: "done"; id: number }
+  | { type: "error"; id: number; message: string };
+
+export type DetectorStats = {
+  fps: number;                  // results in the last second
+  latencyMs: number;            // frame capture → result, smoothed
+  dropped: number;              // frames skipped because one was still in flight
+  inWorker: boolean;
+};
+
+let worker: Worker | null = null;
+let workerInfo: ModelInfo | null = null;
+// Resolves true once the worker has the current model, false when running on the main thread
+let started: { key: string; promise: Promise<boolean> } | null = null;
+let nextId = 1;
+const pending = new Map<number, { resolve: (reply: PoseWorkerReply) => void; reject: (e: Error) => void }>();
+
+function spawnWorker() {
+  if (worker) return worker;
+  if (typeof Worker === "undefined" || typeof createImageBitmap === "undefined") return null;
+  try {
+    // Classic worker (bundled as IIFE). The dev server only serves module workers, so in
+    // development the worker fails to start and detection runs on the main thread.
+    const w = new Worker(new URL("./poseWorker.ts", import.meta.url));
+    w.onmessage = (e: MessageEvent<PoseWorkerReply>) => {
+      const p = pending.get(e.data.id);
+      if (!p) return;
+      pending.delete(e.data.id);
+      if (e.data.type === "error") p.reject(new Error(e.data.message));
+      else p.resolve(e.data);
+    };
+    w.onerror = (e) => {
+      for (const p of pending.values()) p.reject(new Error(e.message || "Pose worker error"));
+      pending.clear();
+    };
+    worker = w;
+    return w;
+  } catch {
+    return null;
+  }
+}
+
+function call(req: PoseWorkerRequest, transfer: Transferable[] = []) {
+  return new Promise<PoseWorkerReply>((resolve, reject) => {
+    pending.set(req.id, { resolve, reject });
+    worker!.postMessage(req, transfer);
+  });
+}
+
+// (Re)loads the model in the worker whenever the model settings change
+function startWorker(): Promise<boolean> {
+  const settings = modelSettings();
+  const key = modelKey(settings);
+  if (started?.key === key) return started.promise;
+
+  const promise = (async () => {
+    if (spawnWorker()) {
+      try {
+        const reply = await call({ type: "init", id: nextId++, settings });
+        if (reply.type === "ready") workerInfo = reply.info;
+        return true;
+      } catch (e) {
+        console.warn("Pose worker unavailable, using the main thread:", e);
+        worker?.terminate();
+        worker = null;
+        workerInfo = null;
+      }
+    }
+    await initPoseLandmarker();
+    setRunningMode("VIDEO");
+    return false;
+  })();
+  started = { key, promise };
+  // A failed main-thread init may be retried later
+  promise.catch(() => {
+    if (started?.promise === promise) started = null;
+  });
+  return promise;
+}
+
+export async function initPoseWorker() {
+  await startWorker();
+}
+
+// New VIDEO timeline (timestamps and tracking state) for a run that must give the same
+// results whatever was detected before it, e.g. processing a whole file
+export async function restartVideoTimeline() {
+  if (!(await startWorker())) {
+    await restartVideoLandmarker();
+    setRunningMode("VIDEO");
+    return;
+  }
+  const reply = await call({ type: "init", id: nextId++, settings: modelSettings(), fresh: true });
+  if (reply.type === "ready") workerInfo = reply.info;
+}
+
+// Model and delegate serving video detection (worker, or main thread as fallback)
+export function workerModelInfo() {
+  return workerInfo;
+}
+
+// Detects on the frame the video currently shows; calls are answered in order
+export async function detectVideoFrame(video: HTMLVideoElement, tMs: number): Promise<PoseLandmarkerResult | null> {
+  if (!(await startWorker())) {
+    setRunningMode("VIDEO");
+    return detectOnVideo(video, tMs);
+  }
+  const frame = await createImageBitmap(video);
+  const reply = await call({ type: "detect", id: nextId++, frame, tMs }, [frame]);
+  if (reply.type !== "result") return null;
+  setActiveModel(workerInfo);
+  return { landmarks: reply.landmarks, worldLandmarks: reply.worldLandmarks } as PoseLandmarkerResult;
+}
+
+// Max people detected per frame (1 = single-person mode)
+export async function setWorkerNumPoses(numPoses: number) {
+  if (!(await startWorker())) return setNumPoses(numPoses);
+  await call({ type: "numPoses", id: nextId++, numPoses: Math.max(1, Math.round(numPoses)) });
+}
+
+export type FrameScheduler = ReturnType<typeof createFrameScheduler>;
+
+/**
+ * Backpressure for playback loops: at most one frame in flight, later frames are
+ * dropped until its result arrives, so results never lag behind a growing queue.
+ */
+export function createFrameScheduler(
+  onResult: (res: PoseLandmarkerResult | null, tMs: number) => void,
+  onError: (e: Error) => void = console.error
+) {
+  let busy = false;
+  let dropped = 0;
+  let latencyMs = 0;
+  const finished: number[] = [];
+
+  return {
+    submit(video: HTMLVideoElement, tMs: number): boolean {
+      if (busy) {
+        dropped++;
+        return false;
+      }
+      busy = true;
+      const sentAt = performance.now();
+      // onResult runs the whole frame analysis; its exceptions go to onError too
+      detectVideoFrame(video, tMs)
+        .then((res) => {
+          const now = performance.now();
+          latencyMs = latencyMs ? latencyMs * 0.8 + (now - sentAt) * 0.2 : now - sentAt;
+          finished.push(now);
+          while (finished.length && now - finished[0] > 1000) finished.shift();
+          onResult(res, tMs);
+        })
+        .catch(onError)
+        .finally(() => (busy = false));
+      return true;
+    },
+    stats: (): DetectorStats => ({
+      fps: finished.length,
+      latencyMs: Math.round(latencyMs),
+      dropped,
+      inWorker: worker !== null,
+    }),
+  };
+}
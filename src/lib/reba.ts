@@ -0,0 +1,240 @@
+import type { ArmAngles, SegmentAngles } from "./segmentAngles";
+
+export type RebaLoad = 0 | 1 | 2;                 // <5 kg, 5–10 kg, >10 kg
+export type RebaCoupling = 0 | 1 | 2 | 3;         // good, fair, poor, unacceptable
+
+// User-supplied factors that forceEstimator cannot infer from the video
+export type RebaInputs = {
+  load?: RebaLoad;
+  shock?: boolean;             // shock or rapid build-up of force
+  coupling?: RebaCoupling;
+  staticHold?: boolean;        // a body part held > 1 min
+  repeated?: boolean;          // small-range actions repeated > 4x/min
+  rapidChange?: boolean;       // rapid large posture changes or unstable base
+};
+
+export type RebaRisk = "Negligible" | "Low" | "Medium" | "High" | "Very high";
+
+export type RebaSegment = {
+  id: "trunk" | "neck" | "legs" | "upperArm" | "lowerArm" | "wrist";
+  label: string;
+  score: number;
+  posture: string;             // what drove the sub-score, e.g. "Flexed 35°"
+  confidence: number;          // lowest visibility of the segment's joints
+};
+
+export type RebaResult = {
+  score: number;               // 1–15
+  risk: RebaRisk;
+  action: string;
+  side: "left" | "right";      // arm that drove Group B
+  scoreA: number;              // trunk, neck & legs (Table A + load)
+  scoreB: number;              // arm & wrist (Table B + coupling)
+  scoreC: number;
+  activity: number;
+  segments: RebaSegment[];
+  driver: RebaSegment["id"];   // segment furthest above its neutral score
+  confidence: number;
+};
+
+/** --------- LOOKUP TABLES (Hignett & McAtamney, 2000) ---------- */
+
+// [trunk 1–5][neck 1–3][legs 1–4]
+const TABLE_A: number[][][] = [
+  [[1, 2, 3, 4], [1, 2, 3, 4], [3, 3, 5, 6]],
+  [[2, 3, 4, 5], [3, 4, 5, 6], [4, 5, 6, 7]],
+  [[2, 4, 5, 6], [4, 5, 6, 7], [5, 6, 7, 8]],
+  [[3, 5, 6, 7], [5, 6, 7, 8], [6, 7, 8, 9]],
+  [[4, 6, 7, 8], [6, 7, 8, 9], [7, 8, 9, 9]],
+];
+
+// [upperArm 1–6][lowerArm 1–2][wrist 1–3]
+const TABLE_B: number[][][] = [
+  [[1, 2, 2], [1, 2, 3]],
+  [[1, 2, 3], [2, 3, 4]],
+  [[3, 4, 5], [4, 5, 5]],
+  [[4, 5, 5], [5, 6, 7]],
+  [[6, 7, 8], [7, 8, 8]],
+  [[7, 8, 8], [8, 9, 9]],
+];
+
+// [scoreA 1–12][scoreB 1–12]
+const TABLE_C: number[][] = [
+  [1, 1, 1, 2, 3, 3, 4, 5, 6, 7, 7, 7],
+  [1, 2, 2, 3, 4, 4, 5, 6, 6, 7, 7, 8],
+  [2, 3, 3, 3, 4, 5, 6, 7, 7, 8, 8, 8],
+  [3, 4, 4, 4, 5, 6, 7, 8, 8, 9, 9, 9],
+  [4, 4, 4, 5, 6, 7, 8, 8, 9, 9, 9, 9],
+  [6, 6, 6, 7, 8, 8, 9, 9, 10, 10, 10, 10],
+  [7, 7, 7, 8, 9, 9, 9, 10, 10, 11, 11, 11],
+  [8, 8, 8, 9, 10, 10, 10, 10, 10, 11, 11, 11],
+  [9, 9, 9, 10, 10, 10, 11, 11, 11, 12, 12, 12],
+  [10, 10, 10, 11, 11, 11, 11, 12, 12, 12, 12, 12],
+  [11, 11, 11, 11, 12, 12, 12, 12, 12, 12, 12, 12],
+  [12, 12, 12, 12, 12, 12, 12, 12, 12, 12, 12, 12],
+];
+
+function clampInt(n: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, Math.round(n)));
+}
+
+function flexText(deg: number) {
+  const a = Math.round(Math.abs(deg));
+  return deg < 0 ? `Extended ${a}°` : `Flexed ${a}°`;
+}
+
+/** --------- SUB-SCORES ---------- */
+
+function scoreTrunk(flexion: number) {
+  if (Math.abs(flexion) <= 5) return 1;
+  if (flexion >= -20 && flexion <= 20) return 2;
+  if (flexion <= 60) return 3;
+  return 4;
+}
+
+function scoreNeck(flexion: number) {
+  return flexion >= -5 && flexion <= 20 ? 1 : 2;
+}
+
+function scoreLegs(bilateral: boolean, kneeFlexion: number) {
+  const base = bilateral ? 1 : 2;
+  if (kneeFlexion > 60) return base + 2;
+  if (kneeFlexion >= 30) return base + 1;
+  return base;
+}
+
+function scoreUpperArm(arm: ArmAngles) {
+  const f = arm.upperArmFlexion;
+  const base = f < -20 ? 2 : f <= 20 ? 1 : f <= 45 ? 2 : f <= 90 ? 3 : 4;
+  return Math.min(6, base + (arm.abducted ? 1 : 0));
+}
+
+function scoreLowerArm(flexion: number) {
+  return flexion >= 60 && flexion <= 100 ? 1 : 2;
+}
+
+function scoreWrist(flexion: number) {
+  return Math.abs(flexion) <= 15 ? 1 : 2;
+}
+
+export function rebaRisk(score: number): { risk: RebaRisk; action: string } {
+  if (score <= 1) return { risk: "Negligible", action: "No action necessary" };
+  if (score <= 3) return { risk: "Low", action: "Change may be needed" };
+  if (score <= 7) return { risk: "Medium", action: "Investigate further, change soon" };
+  if (score <= 10) return { risk: "High", action: "Investigate and implement change" };
+  return { risk: "Very high", action: "Implement change now" };
+}
+
+/**
+ * REBA from a single pose plus the load, coupling and activity inputs.
+ * Both arms are scored and the worse side is reported. `seg` is the frame's
+ * measureSegments result.
+ */
+export function computeReba(
+  seg: SegmentAngles | null,
+  inputs: RebaInputs = {}
+): RebaResult | null {
+  if (!seg) return null;
+
+  // Group A: trunk, neck, legs
+  const trunk = scoreTrunk(seg.trunkFlexion);
+  // Ears not visible: neutral neck score, flagged by its zero confidence
+  const neck = scoreNeck(seg.neckFlexion ?? 0);
+  const kneeFlexion = Math.max(seg.leftKneeFlexion ?? 0, seg.rightKneeFlexion ?? 0);
+  const legs = scoreLegs(seg.bilateralSupport, kneeFlexion);
+
+  const load = clampInt(inputs.load ?? 0, 0, 2) + (inputs.shock ? 1 : 0);
+  const scoreA = TABLE_A[trunk - 1][neck - 1][legs - 1] + load;
+
+  // Group B: upper arm, lower arm, wrist (worse side)
+  const coupling = clampInt(inputs.coupling ?? 0, 0, 3);
+
+  let armSide: "left" | "right" = "right";
+  let arm: ArmAngles | undefined;
+  let tableB = 0;
+  for (const side of ["left", "right"] as const) {
+    const a = seg[side];
+    if (!a) continue;
+    const b = TABLE_B[scoreUpperArm(a) - 1][scoreLowerArm(a.elbowFlexion) - 1][
+      (a.wristFlexion !== undefined ? scoreWrist(a.wristFlexion) : 1) - 1
+    ];
+    if (b > tableB) {
+      tableB = b;
+      arm = a;
+      armSide = side;
+    }
+  }
+  if (!arm) return null;
+
+  const upperArm = scoreUpperArm(arm);
+  const lowerArm = scoreLowerArm(arm.elbowFlexion);
+  const wrist = arm.wristFlexion !== undefined ? scoreWrist(arm.wristFlexion) : 1;
+  const scoreB = tableB + coupling;
+
+  const scoreC = TABLE_C[clampInt(scoreA, 1, 12) - 1][clampInt(scoreB, 1, 12) - 1];
+  const activity = (inputs.staticHold ? 1 : 0) + (inputs.repeated ? 1 : 0) + (inputs.rapidChange ? 1 : 0);
+  const score = scoreC + activity;
+
+  const segments: RebaSegment[] = [
+    {
+      id: "trunk",
+      label: "Trunk",
+      score: trunk,
+      posture: flexText(seg.trunkFlexion),
+      confidence: seg.confidence.trunk,
+    },
+    {
+      id: "neck",
+      label: "Neck",
+      score: neck,
+      posture: seg.neckFlexion === undefined ? "Not visible" : flexText(seg.neckFlexion),
+      confidence: seg.confidence.neck,
+    },
+    {
+      id: "legs",
+      label: "Legs",
+      score: legs,
+      posture: `${seg.bilateralSupport ? "Both feet supported" : "Unilateral support"}, knees flexed ${Math.round(kneeFlexion)}°`,
+      confidence: seg.confidence.legs,
+    },
+    {
+      id: "upperArm",
+      label: `Upper arm (${armSide})`,
+      score: upperArm,
+      posture: arm.abducted
+        ? `${flexText(arm.upperArmFlexion)}, abducted ${Math.round(arm.upperArmAbduction ?? 0)}°`
+        : flexText(arm.upperArmFlexion),
+      confidence: arm.confidence,
+    },
+    {
+      id: "lowerArm",
+      label: `Lower arm (${armSide})`,
+      score: lowerArm,
+      posture: `Elbow flexed ${Math.round(arm.elbowFlexion)}°`,
+      confidence: arm.confidence,
+    },
+    {
+      id: "wrist",
+      label: `Wrist (${armSide})`,
+      score: wrist,
+      posture: arm.wristFlexion !== undefined ? `Bent ${Math.round(arm.wristFlexion)}°` : "Not visible",
+      confidence: arm.confidence,
+    },
+  ];
+
+  // Every segment's neutral score is 1, so the highest sub-score drove the result
+  const driver = segments.reduce((a, b) => (b.score > a.score ? b : a)).id;
+
+  return {
+    score,
+    ...rebaRisk(score),
+    side: armSide,
+    scoreA,
+    scoreB,
+    scoreC,
+    activity,
+    segments,
+    driver,
+    confidence: Math.min(...segments.map((sg) => sg.confidence)),
+  };
+}
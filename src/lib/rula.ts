@@ -0,0 +1,184 @@
+import type { SegmentAngles } from "./segmentAngles";
+
+export type RulaForceLoad = 0 | 1 | 2 | 3;
+
+// User-supplied factors that cannot be seen in a single frame
+export type RulaInputs = {
+  muscleUse?: boolean;        // static > 1 min or repeated > 4x/min
+  forceLoad?: RulaForceLoad;  // 0: <2 kg, 1: 2–10 kg intermittent, 2: 2–10 kg static/repeated, 3: >10 kg or shock
+};
+
+export type RulaActionLevel = 1 | 2 | 3 | 4;
+
+export type RulaResult = {
+  score: number;              // 1–7
+  actionLevel: RulaActionLevel;
+  action: string;
+  side: "left" | "right";     // arm that drove the score
+  scoreA: number;             // arm & wrist (Table A + muscle + force)
+  scoreB: number;             // neck, trunk & legs (Table B + muscle + force)
+  upperArm: number;
+  lowerArm: number;
+  wrist: number;
+  wristTwist: number;
+  neck: number;
+  trunk: number;
+  legs: number;
+  muscleUse: number;
+  forceLoad: number;
+  confidence: number;         // lowest visibility of the joints that were scored
+};
+
+/** --------- LOOKUP TABLES (McAtamney & Corlett, 1993) ---------- */
+
+// [upperArm 1–6][lowerArm 1–3][wrist 1–4][wristTwist 1–2]
+const TABLE_A: number[][][][] = [
+  [[[1, 2], [2, 2], [2, 3], [3, 3]], [[2, 2], [2, 2], [3, 3], [3, 3]], [[2, 3], [3, 3], [3, 3], [4, 4]]],
+  [[[2, 3], [3, 3], [3, 4], [4, 4]], [[3, 3], [3, 3], [3, 4], [4, 4]], [[3, 4], [4, 4], [4, 4], [5, 5]]],
+  [[[3, 3], [4, 4], [4, 4], [5, 5]], [[3, 4], [4, 4], [4, 4], [5, 5]], [[4, 4], [4, 4], [4, 5], [5, 5]]],
+  [[[4, 4], [4, 4], [4, 5], [5, 5]], [[4, 4], [4, 4], [4, 5], [5, 5]], [[4, 4], [4, 5], [5, 5], [6, 6]]],
+  [[[5, 5], [5, 5], [5, 6], [6, 7]], [[5, 6], [6, 6], [6, 7], [7, 7]], [[6, 6], [6, 7], [7, 7], [7, 8]]],
+  [[[7, 7], [7, 7], [7, 8], [8, 9]], [[8, 8], [8, 8], [8, 9], [9, 9]], [[9, 9], [9, 9], [9, 9], [9, 9]]],
+];
+
+// [neck 1–6][trunk 1–6][legs 1–2]
+const TABLE_B: number[][][] = [
+  [[1, 3], [2, 3], [3, 4], [5, 5], [6, 6], [7, 7]],
+  [[2, 3], [2, 3], [4, 5], [5, 5], [6, 7], [7, 7]],
+  [[3, 3], [3, 4], [4, 5], [5, 6], [6, 7], [7, 7]],
+  [[5, 5], [5, 6], [6, 7], [7, 7], [7, 7], [8, 8]],
+  [[7, 7], [7, 7], [7, 8], [8, 8], [8, 8], [8, 8]],
+  [[8, 8], [8, 8], [8, 8], [8, 9], [9, 9], [9, 9]],
+];
+
+// [scoreA 1–8+][scoreB 1–7+]
+const TABLE_C: number[][] = [
+  [1, 2, 3, 3, 4, 5, 5],
+  [2, 2, 3, 4, 4, 5, 5],
+  [3, 3, 3, 4, 4, 5, 6],
+  [3, 3, 3, 4, 5, 6, 6],
+  [4, 4, 4, 5, 6, 7, 7],
+  [4, 4, 5, 6, 6, 7, 7],
+  [5, 5, 6, 6, 7, 7, 7],
+  [5, 5, 6, 7, 7, 7, 7],
+];
+
+const ACTIONS: Record<RulaActionLevel, string> = {
+  1: "Acceptable posture",
+  2: "Further investigation, change may be needed",
+  3: "Further investigation, change soon",
+  4: "Investigate and implement change",
+};
+
+function clampInt(n: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, Math.round(n)));
+}
+
+/** --------- SUB-SCORES ---------- */
+
+function scoreUpperArm(flexion: number) {
+  if (flexion < -20) return 2;
+  if (flexion <= 20) return 1;
+  if (flexion <= 45) return 2;
+  if (flexion <= 90) return 3;
+  return 4;
+}
+
+function scoreLowerArm(flexion: number, crossesMidline: boolean) {
+  const base = flexion >= 60 && flexion <= 100 ? 1 : 2;
+  return base + (crossesMidline ? 1 : 0);
+}
+
+function scoreWrist(flexion: number) {
+  const a = Math.abs(flexion);
+  if (a <= 5) return 1;
+  if (a <= 15) return 2;
+  return 3;
+}
+
+function scoreNeck(flexion: number) {
+  if (flexion < -5) return 4;
+  if (flexion <= 10) return 1;
+  if (flexion <= 20) return 2;
+  return 3;
+}
+
+function scoreTrunk(flexion: number) {
+  const a = Math.abs(flexion);
+  if (a <= 5) return 1;
+  if (a <= 20) return 2;
+  if (a <= 60) return 3;
+  return 4;
+}
+
+export function rulaActionLevel(score: number): RulaActionLevel {
+  if (score <= 2) return 1;
+  if (score <= 4) return 2;
+  if (score <= 6) return 3;
+  return 4;
+}
+
+/**
+ * RULA from a single pose. Both arms are scored and the worse side is reported.
+ * Adjustments that cannot be seen in a single frame (shoulder raised, arm
+ * supported, wrist twist, neck/trunk twist) use their neutral value; arm
+ * abduction is only scored when 3D world landmarks are available.
+ * `seg` is the frame's measureSegments result, shared with the report and REBA.
+ */
+export function computeRula(
+  seg: SegmentAngles | null,
+  inputs: RulaInputs = {}
+): RulaResult | null {
+  if (!seg) return null;
+
+  const muscleUse = inputs.muscleUse ? 1 : 0;
+  const forceLoad = clampInt(inputs.forceLoad ?? 0, 0, 3);
+
+  // Ears not visible: neutral neck score, flagged by its zero confidence
+  const neck = scoreNeck(seg.neckFlexion ?? 0);
+  const trunk = scoreTrunk(seg.trunkFlexion);
+  const legs = seg.bilateralSupport ? 1 : 2;
+  const tableB = TABLE_B[neck - 1][trunk - 1][legs - 1];
+  const scoreB = tableB + muscleUse + forceLoad;
+
+  let best: RulaResult | null = null;
+
+  for (const side of ["left", "right"] as const) {
+    const arm = seg[side];
+    if (!arm) continue;
+
+    const upperArm = Math.min(6, scoreUpperArm(arm.upperArmFlexion) + (arm.abducted ? 1 : 0));
+    const lowerArm = scoreLowerArm(arm.elbowFlexion, arm.crossesMidline);
+    const wrist = arm.wristFlexion !== undefined ? scoreWrist(arm.wristFlexion) : 1;
+    const wristTwist = 1;
+
+    const tableA = TABLE_A[upperArm - 1][lowerArm - 1][wrist - 1][wristTwist - 1];
+    const scoreA = tableA + muscleUse + forceLoad;
+
+    const score = TABLE_C[clampInt(scoreA, 1, 8) - 1][clampInt(scoreB, 1, 7) - 1];
+    const actionLevel = rulaActionLevel(score);
+
+    if (!best || score > best.score || (score === best.score && scoreA > best.scoreA)) {
+      best = {
+        score,
+        actionLevel,
+        action: ACTIONS[actionLevel],
+        side,
+        scoreA,
+        scoreB,
+        upperArm,
+        lowerArm,
+        wrist,
+        wristTwist,
+        neck,
+        trunk,
+        legs,
+        muscleUse,
+        forceLoad,
+        confidence: Math.min(arm.confidence, seg.confidence.neck, seg.confidence.trunk),
+      };
+    }
+  }
+
+  return best;
+}
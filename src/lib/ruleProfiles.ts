@@ -0,0 +1,214 @@
+import { readStorage, writeStorage } from "./storage";
+
+// Named threshold profiles for the posture issue rules in buildReport
+
+export type RuleId = "neck-tilt" | "shoulder-slope" | "reach" | "left-knee" | "right-knee";
+
+export type IssueRule = {
+  enabled: boolean;
+  mild: number;                  // threshold for a MILD issue
+  high: number;                  // threshold for a HIGH issue
+  maxSeverity: "MILD" | "HIGH";  // cap, e.g. to report a rule as advisory only
+  fix?: string;                  // replaces the built-in fix text when set
+  // Length rules only: thresholds in cm, used instead of mild/high (% of frame) when the
+  // length is metric (world landmarks or a calibrated camera)
+  cm?: { mild: number; high: number };
+};
+
+export type RuleProfile = {
+  id: string;
+  name: string;
+  description?: string;
+  builtIn?: boolean;
+  rules: Record<RuleId, IssueRule>;
+  penalties: { MILD: number; HIGH: number };   // ErgoScore points lost per issue
+  riskBands: { low: number; medium: number };  // score ≥ low → Low risk, ≥ medium → Medium
+};
+
+export const RULE_IDS: RuleId[] = ["neck-tilt", "shoulder-slope", "reach", "left-knee", "right-knee"];
+
+// Knee rules fire when the angle is BELOW the threshold; all others when above
+export const RULE_BELOW: Record<RuleId, boolean> = {
+  "neck-tilt": false,
+  "shoulder-slope": false,
+  reach: false,
+  "left-knee": true,
+  "right-knee": true,
+};
+
+function rule(mild: number, high: number, extra: Partial<IssueRule> = {}): IssueRule {
+  return { enabled: true, mild, high, maxSeverity: "HIGH", ...extra };
+}
+
+/**
+ * Metric limits for the length rules. Shoulder height difference: about 2 cm is a visible
+ * hitch or lean, 4 cm a clearly raised shoulder (RULA adds a point for a raised shoulder).
+ * Forward reach (wrists ahead of the shoulders): forearm reach with elbows at the sides is
+ * ~30–35 cm, so 40 cm leaves the primary work zone and 55 cm is near full arm extension.
+ */
+const cm = (mild: number, high: number) => ({ mild, high });
+
+export const DEFAULT_PROFILE: RuleProfile = {
+  id: "default",
+  name: "General (default)",
+  description: "Original ErgoFit limits",
+  builtIn: true,
+  rules: {
+    "neck-tilt": rule(18, 28),
+    "shoulder-slope": rule(4.5, 8, { cm: cm(2, 4) }),
+    reach: rule(18, 30, { cm: cm(40, 55) }),
+    "left-knee": rule(155, 130),
+    "right-knee": rule(155, 130),
+  },
+  penalties: { MILD: 9, HIGH: 18 },
+  riskBands: { low: 80, medium: 55 },
+};
+
+export const BUILT_IN_PROFILES: RuleProfile[] = [
+  DEFAULT_PROFILE,
+  {
+    id: "seated-office",
+    name: "Seated office",
+    description: "Screen work; knees are bent by design",
+    builtIn: true,
+    rules: {
+      "neck-tilt": rule(15, 25, { fix: "Raise the monitor so the top line is at eye level; keep ears over shoulders." }),
+      "shoulder-slope": rule(4, 7, {
+        cm: cm(2, 3.5),
+        fix: "Set both armrests to the same height, just below relaxed elbow height.",
+      }),
+      reach: rule(15, 25, { cm: cm(35, 50), fix: "Bring keyboard and mouse within forearm reach, elbows by your sides." }),
+      "left-knee": rule(155, 130, { enabled: false }),
+      "right-knee": rule(155, 130, { enabled: false }),
+    },
+    penalties: { MILD: 9, HIGH: 18 },
+    riskBands: { low: 80, medium: 55 },
+  },
+  {
+    id: "standing-assembly",
+    name: "Standing assembly",
+    description: "Bench work at standing height",
+    builtIn: true,
+    rules: {
+      "neck-tilt": rule(20, 30, { fix: "Raise the work surface or tilt parts toward you to reduce looking down." }),
+      "shoulder-slope": rule(5, 9, { cm: cm(2.5, 4.5) }),
+      reach: rule(20, 35, { cm: cm(40, 55), fix: "Move parts bins and tools into the primary reach zone." }),
+      "left-knee": rule(160, 140),
+      "right-knee": rule(160, 140),
+    },
+    penalties: { MILD: 9, HIGH: 18 },
+    riskBands: { low: 80, medium: 55 },
+  },
+  {
+    id: "warehouse",
+    name: "Warehouse / handling",
+    description: "Picking and material handling; bending and reaching are expected",
+    builtIn: true,
+    rules: {
+      "neck-tilt": rule(25, 35),
+      "shoulder-slope": rule(6, 10, { cm: cm(3, 5), maxSeverity: "MILD" }),
+      reach: rule(25, 40, { cm: cm(45, 60), fix: "Step closer to the load and keep it between knee and shoulder height." }),
+      "left-knee": rule(140, 110),
+      "right-knee": rule(140, 110),
+    },
+    penalties: { MILD: 7, HIGH: 15 },
+    riskBands: { low: 75, medium: 50 },
+  },
+];
+
+/** --------- PERSISTENCE (localStorage) ---------- */
+const CUSTOM_KEY = "ergofit.ruleProfiles";
+const ACTIVE_KEY = "ergofit.activeRuleProfile";
+
+let customCache: RuleProfile[] | null = null;
+let activeCache: RuleProfile | null = null;
+
+// Fills gaps in imported / stored profiles from the default profile
+export function normalizeProfile(p: any): RuleProfile {
+  if (!p || typeof p !== "object") throw new Error("Profile must be an object");
+  if (!p.name || typeof p.name !== "string") throw new Error("Profile needs a name");
+
+  const num = (v: any, d: number) => (Number.isFinite(Number(v)) ? Number(v) : d);
+  const rules = {} as Record<RuleId, IssueRule>;
+  for (const id of RULE_IDS) {
+    const base = DEFAULT_PROFILE.rules[id];
+    const r = p.rules?.[id] ?? {};
+    rules[id] = {
+      enabled: r.enabled ?? base.enabled,
+      mild: num(r.mild, base.mild),
+      high: num(r.high, base.high),
+      maxSeverity: r.maxSeverity === "MILD" ? "MILD" : "HIGH",
+      fix: typeof r.fix === "string" && r.fix.trim() ? r.fix : undefined,
+      cm: base.cm ? { mild: num(r.cm?.mild, base.cm.mild), high: num(r.cm?.high, base.cm.high) } : undefined,
+    };
+  }
+
+  return {
+    id: typeof p.id === "string" && p.id ? p.id : `custom-${Date.now().toString(36)}`,
+    name: p.name,
+    description: typeof p.description === "string" ? p.description : undefined,
+    rules,
+    penalties: {
+      MILD: num(p.penalties?.MILD, DEFAULT_PROFILE.penalties.MILD),
+      HIGH: num(p.penalties?.HIGH, DEFAULT_PROFILE.penalties.HIGH),
+    },
+    riskBands: {
+      low: num(p.riskBands?.low, DEFAULT_PROFILE.riskBands.low),
+      medium: num(p.riskBands?.medium, DEFAULT_PROFILE.riskBands.medium),
+    },
+  };
+}
+
+export function customProfiles(): RuleProfile[] {
+  if (!customCache) {
+    const stored = readStorage<any[]>(CUSTOM_KEY, []);
+    customCache = [];
+    for (const p of Array.isArray(stored) ? stored : []) {
+      try {
+        // A blank name is no reason to lose the thresholds (or silently fall back to the default)
+        const unnamed = p && typeof p === "object" && !(typeof p.name === "string" && p.name.trim());
+        customCache.push(normalizeProfile(unnamed ? { ...p, name: "Untitled profile" } : p));
+      } catch {
+        // skip corrupt entries
+      }
+    }
+  }
+  return customCache;
+}
+
+export function allProfiles(): RuleProfile[] {
+  return [...BUILT_IN_PROFILES, ...customProfiles()];
+}
+
+// Validated before storing, so every stored profile loads again (throws on a missing name)
+export function saveCustomProfiles(list: RuleProfile[]) {
+  customCache = list.map(normalizeProfile);
+  writeStorage(CUSTOM_KEY, customCache);
+  activeCache = null;
+}
+
+// Profile used by buildReport when the caller does not pass one
+export function activeProfile(): RuleProfile {
+  if (!activeCache) {
+    const id = readStorage<string>(ACTIVE_KEY, DEFAULT_PROFILE.id);
+    activeCache = allProfiles().find((p) => p.id === id) ?? DEFAULT_PROFILE;
+  }
+  return activeCache;
+}
+
+export function setActiveProfile(id: string) {
+  writeStorage(ACTIVE_KEY, id);
+  activeCache = null;
+}
+
+/** --------- IMPORT / EXPORT ---------- */
+export function exportProfilesJson(list: RuleProfile[]) {
+  return JSON.stringify({ kind: "ergofit-rule-profiles", version: 1, profiles: list }, null, 2);
+}
+
+// Accepts an export file, a bare array, or a single profile
+export function parseProfilesJson(text: string): RuleProfile[] {
+  const data = JSON.parse(text);
+  const list = Array.isArray(data) ? data : Array.isArray(data?.profiles) ? data.profiles : [data];
+  return list.map(normalizeProfile);
+}
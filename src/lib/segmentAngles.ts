@@ -0,0 +1,97 @@
+import {
+  KP,
+  angleBetween,
+  bodyAxes,
+  dot,
+  frameConfidence,
+  mid,
+  planeAngle,
+  scale,
+  sub,
+  type GeometryBasis,
+  type PoseFrame,
+  type Vec3,
+} from "./geometry";
+
+export type ArmAngles = {
+  upperArmFlexion: number;    // deg from trunk line in the sagittal plane, + forward / - extension
+  upperArmAbduction?: number; // deg from trunk line in the frontal plane (3D only)
+  abducted: boolean;          // arm raised mainly sideways (> 30°)
+  elbowFlexion: number;       // deg, 0 = straight arm
+  wristFlexion?: number;      // deg between forearm and hand (unsigned)
+  crossesMidline: boolean;    // hand working across the body
+  confidence: number;         // lowest visibility of the arm's joints
+};
+
+// Body-segment angles shared by the RULA / REBA scorers
+export type SegmentAngles = {
+  basis: GeometryBasis;
+  trunkFlexion: number;       // deg from vertical, + forward / - extension
+  neckFlexion?: number;       // deg from trunk line, + forward / - extension (ears visible)
+  left?: ArmAngles;
+  right?: ArmAngles;
+  leftKneeFlexion?: number;   // deg, 0 = straight leg
+  rightKneeFlexion?: number;
+  bilateralSupport: boolean;  // both feet level on the ground (or legs not visible)
+  confidence: { trunk: number; neck: number; legs: number };
+};
+
+const TRUNK_JOINTS = [KP.LEFT_SHOULDER, KP.RIGHT_SHOULDER, KP.LEFT_HIP, KP.RIGHT_HIP];
+
+// Ankle height difference that counts as one leg raised
+const UNEVEN_FEET = { world: 0.08, image: 0.05 };
+
+export function measureSegments(frame: PoseFrame | null): SegmentAngles | null {
+  if (!frame) return null;
+
+  const axes = bodyAxes(frame);
+  if (!axes) return null;
+
+  const p = frame.points;
+  const { up, forward, trunkUp, trunkForward, trunkLateral, shoulderMid } = axes;
+  const trunkDown = scale(trunkUp, -1);
+  const is3d = frame.basis === "world";
+
+  const Le = p[KP.LEFT_EAR], Re = p[KP.RIGHT_EAR];
+  const earMid = Le && Re ? mid(Le, Re) : null;
+
+  const arm = (side: "LEFT" | "RIGHT", outward: Vec3): ArmAngles | undefined => {
+    const sIdx = KP[`${side}_SHOULDER`], eIdx = KP[`${side}_ELBOW`], wIdx = KP[`${side}_WRIST`];
+    const s = p[sIdx], e = p[eIdx], w = p[wIdx], i = p[KP[`${side}_INDEX`]];
+    if (!s || !e || !w) return undefined;
+    const upperArmVec = sub(e, s);
+    const forearmVec = sub(w, e);
+    const flexion = planeAngle(upperArmVec, trunkDown, trunkForward);
+    const abduction = is3d ? planeAngle(upperArmVec, trunkDown, outward) : undefined;
+    return {
+      upperArmFlexion: flexion,
+      upperArmAbduction: abduction,
+      abducted: abduction !== undefined && abduction > 30 && abduction > Math.abs(flexion) / 2,
+      elbowFlexion: angleBetween(upperArmVec, forearmVec),
+      wristFlexion: i ? angleBetween(forearmVec, sub(i, w)) : undefined,
+      crossesMidline: dot(sub(w, shoulderMid), sub(s, shoulderMid)) < 0,
+      confidence: frameConfidence(frame, [...TRUNK_JOINTS, eIdx, wIdx]),
+    };
+  };
+
+  const knee = (h?: Vec3, k?: Vec3, a?: Vec3) =>
+    h && k && a ? angleBetween(sub(k, h), sub(a, k)) : undefined;
+
+  const La = p[KP.LEFT_ANKLE], Ra = p[KP.RIGHT_ANKLE];
+
+  return {
+    basis: frame.basis,
+    trunkFlexion: planeAngle(trunkUp, up, forward),
+    neckFlexion: earMid ? planeAngle(sub(earMid, shoulderMid), trunkUp, trunkForward) : undefined,
+    left: arm("LEFT", trunkLateral),
+    right: arm("RIGHT", scale(trunkLateral, -1)),
+    leftKneeFlexion: knee(p[KP.LEFT_HIP], p[KP.LEFT_KNEE], La),
+    rightKneeFlexion: knee(p[KP.RIGHT_HIP], p[KP.RIGHT_KNEE], Ra),
+    bilateralSupport: !(La && Ra && Math.abs(La.y - Ra.y) > UNEVEN_FEET[frame.basis]),
+    confidence: {
+      trunk: frameConfidence(frame, TRUNK_JOINTS),
+      neck: frameConfidence(frame, [...TRUNK_JOINTS, KP.LEFT_EAR, KP.RIGHT_EAR]),
+      legs: frameConfidence(frame, [KP.LEFT_KNEE, KP.RIGHT_KNEE, KP.LEFT_ANKLE, KP.RIGHT_ANKLE]),
+    },
+  };
+}
@@ -0,0 +1,53 @@
+// JSON values in localStorage, shared by the settings, profiles and logs
+
+// Missing or unreadable entries (private mode, corrupt JSON) give the fallback
+export function readStorage<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) ?? fallback : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function writeStorage(key: string, value: unknown) {
+  localStorage.setItem(key, JSON.stringify(value));
+}
+
+export function removeStorage(key: string) {
+  localStorage.removeItem(key);
+}
+
+/**
+ * A settings object read once and then served from memory. `parse` merges what is stored
+ * (an empty object when nothing is) with the defaults and repairs invalid values.
+ */
+export function storedSetting<T>(key: string, parse: (stored: any) => T) {
+  let cache: T | null = null;
+  return {
+    get(): T {
+      if (cache === null) {
+        try {
+          cache = parse(readStorage<any>(key, {}));
+        } catch {
+          cache = parse({});
+        }
+      }
+      return cache;
+    },
+    save(value: T) {
+      cache = value;
+      writeStorage(key, value);
+    },
+  };
+}
+
+// Append-only logs capped at `limit` entries (oldest dropped)
+export function readLog<T>(key: string): T[] {
+  const list = readStorage<T[]>(key, []);
+  return Array.isArray(list) ? list : [];
+}
+
+export function appendLog<T>(key: string, entry: T, limit: number) {
+  writeStorage(key, [...readLog<T>(key), entry].slice(-limit));
+}
@@ -0,0 +1,38 @@
+// Frame-accurate stepping through a video file, independent of playback speed
+
+// Target timestamps (seconds) for sampling the whole video at a fixed rate
+export function frameTimes(duration: number, fps: number): number[] {
+  if (!Number.isFinite(duration) || duration <= 0 || fps <= 0) return [];
+  const step = 1 / fps;
+  const count = Math.floor(duration * fps + 1e-6) + 1;
+  const out: number[] = [];
+  for (let i = 0; i < count; i++) out.push(Math.min(i * step, duration));
+  return out;
+}
+
+// Seek and wait until the decoder has the target frame ready to read
+export function seekVideo(video: HTMLVideoElement, t: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener("seeked", onSeeked);
+      video.removeEventListener("error", onError);
+    };
+    const onSeeked = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error("Video seek failed"));
+    };
+
+    video.addEventListener("seeked", onSeeked);
+    video.addEventListener("error", onError);
+    if (Math.abs(video.currentTime - t) < 1e-4 && video.readyState >= 2) {
+      cleanup();
+      resolve();
+      return;
+    }
+    video.currentTime = t;
+  });
+}
@@ -0,0 +1,25 @@
+import RuleProfileSettings from "../components/RuleProfileSettings";
+import AlertSettingsPanel from "../components/AlertSettingsPanel";
+import BreakSettingsPanel from "../components/BreakSettingsPanel";
+import ModelSettingsPanel from "../components/ModelSettingsPanel";
+import OfflineAssetsPanel from "../components/OfflineAssetsPanel";
+
+export default function AppSettings() {
+  return (
+    <div className="grid">
+      <div className="card">
+        <div className="cardHeader">
+          <div className="cardTitle">Settings</div>
+        </div>
+
+        <div className="cardBody">
+          <ModelSettingsPanel />
+          <OfflineAssetsPanel />
+          <RuleProfileSettings />
+          <AlertSettingsPanel />
+          <BreakSettingsPanel />
+        </div>
+      </div>
+    </div>
+  );
+}
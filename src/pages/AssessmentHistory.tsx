@@ -0,0 +1,187 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  deleteAssessment,
+  getAssessment,
+  listAssessments,
+  matchesQuery,
+  type AssessmentPayload,
+  type AssessmentRecord,
+} from "../lib/historyStore";
+import { downloadJson } from "../lib/exporters";
+import { openPrintableReport } from "../components/printDocument";
+import RightPanel from "../components/RightPanel";
+import RiskTimeline from "../components/RiskTimeline";
+import ExposurePanel from "../components/ExposurePanel";
+import SessionSummaryPanel from "../components/SessionSummaryPanel";
+
+type Opened = { record: AssessmentRecord; payload: AssessmentPayload };
+
+const KIND_LABEL = { photo: "Photo", video: "Video", live: "Live" } as const;
+
+export default function AssessmentHistory() {
+  const [records, setRecords] = useState<AssessmentRecord[]>([]);
+  const [query, setQuery] = useState("");
+  const [opened, setOpened] = useState<Opened | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  async function refresh() {
+    try {
+      setRecords(await listAssessments());
+      setErr(null);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    }
+  }
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const visible = useMemo(() => records.filter((r) => matchesQuery(r, query)), [records, query]);
+
+  async function open(id: string) {
+    try {
+      setOpened(await getAssessment(id));
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    }
+  }
+
+  async function remove(r: AssessmentRecord) {
+    if (!window.confirm(`Delete this ${KIND_LABEL[r.kind].toLowerCase()} assessment?`)) return;
+    try {
+      await deleteAssessment(r.id);
+      if (opened?.record.id === r.id) setOpened(null);
+      await refresh();
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    }
+  }
+
+  const issueTitles = useMemo(() => {
+    const out: Record<string, string> = { ...opened?.payload.session?.issueTitles };
+    for (const s of opened?.payload.samples ?? []) for (const i of s.report?.issues ?? []) out[i.id] = i.title;
+    return out;
+  }, [opened]);
+
+  return (
+    <div className="grid">
+      <div className="card">
+        <div className="cardHeader">
+          <div className="cardTitle">Assessment history</div>
+          <input
+            className="input"
+            type="search"
+            placeholder="Search worker, task, station, notes…"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            style={{ minWidth: 260 }}
+          />
+        </div>
+
+        <div className="cardBody">
+          {err ? <div className="hint">Error: {err}</div> : null}
+
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1.4fr", gap: 14 }}>
+            {/* LEFT — list */}
+            <div className="historyList">
+              {visible.length ? (
+                visible.map((r) => (
+                  <div
+                    key={r.id}
+                    className={`historyItem ${opened?.record.id === r.id ? "historyItemActive" : ""}`}
+                    onClick={() => open(r.id)}
+                  >
+                    {r.thumbnail ? <img src={r.thumbnail} alt="" /> : <div className="historyThumb" />}
+                    <div className="historyMeta">
+                      <div className="label">
+                        {KIND_LABEL[r.kind]} · {new Date(r.createdAt).toLocaleString()}
+                      </div>
+                      <div>
+                        <b>{r.task || r.source || "Untitled"}</b>
+                        {r.worker ? ` — ${r.worker}` : ""}
+                        {r.station ? ` @ ${r.station}` : ""}
+                      </div>
+                      <div className="label">
+                        Score {r.score ?? "—"} · {r.risk ?? "—"} risk
+                      </div>
+                    </div>
+                    <button
+                      className="btn"
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        remove(r);
+                      }}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                ))
+              ) : (
+                <div className="muted">
+                  {records.length ? "No assessments match your search" : "No saved assessments yet"}
+                </div>
+              )}
+            </div>
+
+            {/* RIGHT — reopened assessment */}
+            <div>
+              {opened ? (
+                <>
+                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginBottom: 10 }}>
+                    <button
+                      className="btn"
+                      type="button"
+                      disabled={!opened.payload.report}
+                      onClick={() => downloadJson(opened.payload.report)}
+                    >
+                      Export JSON
+                    </button>
+                    <button
+                      className="btn"
+                      type="button"
+                      disabled={!opened.payload.report}
+                      onClick={() =>
+                        openPrintableReport({
+                          meta: opened.record,
+                          kind: opened.record.kind,
+                          report: opened.payload.report,
+                          frameUrl: opened.record.thumbnail,
+                          samples: opened.payload.samples,
+                          duration: opened.payload.duration,
+                          exposure: opened.payload.exposure,
+                          session: opened.payload.session,
+                          generatedAt: new Date().toISOString(),
+                        })
+                      }
+                    >
+                      Printable report
+                    </button>
+                  </div>
+
+                  {opened.record.thumbnail ? (
+                    <img className="historyPreview" src={opened.record.thumbnail} alt="Saved frame" />
+                  ) : null}
+                  {opened.record.notes ? <div className="hint">Notes: {opened.record.notes}</div> : null}
+
+                  {opened.payload.session ? <SessionSummaryPanel summary={opened.payload.session} /> : null}
+                  {opened.payload.samples?.length ? (
+                    <RiskTimeline samples={opened.payload.samples} duration={opened.payload.duration} />
+                  ) : null}
+                  <ExposurePanel summary={opened.payload.exposure ?? null} issueTitles={issueTitles} />
+
+                  <div style={{ marginTop: 12 }}>
+                    <RightPanel report={opened.payload.report} title="Saved report" />
+                  </div>
+                </>
+              ) : (
+                <div className="muted">Select an assessment to reopen it</div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { initPoseLandmarker, setRunningMode, detectOnImage } from "../lib/poseEngine";
+import { buildReport } from "../lib/poseMath";
+import { buildLeverReport } from "../lib/leverAnalysis";
+import { detectActionImage } from "../lib/actionDetector";
+import { estimateForceLevel } from "../lib/forceEstimator";
+import { drawPoseOverlay } from "../lib/draw";
+import { compareReports } from "../lib/compareReports";
+import { getAssessment, listAssessments, type AssessmentRecord } from "../lib/historyStore";
+import { downloadBlob } from "../lib/exporters";
+import { openPrintableComparison } from "../components/printDocument";
+import { ComparisonTables, type CompareSide } from "../components/ComparisonReport";
+
+type SideKey = "before" | "after";
+
+// Analyzes an uploaded photo and returns its report plus the annotated frame
+async function analyzePhoto(file: File): Promise<CompareSide> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+
+    setRunningMode("IMAGE");
+    const result = detectOnImage(img);
+    const rep = buildReport(result);
+    const leverBase = buildLeverReport(result, rep?.angles);
+    const action = detectActionImage(result, rep?.view?.view);
+    const force = estimateForceLevel(leverBase?.points?.wristMid ?? null, leverBase?.lowBackMomentIndex ?? 0);
+    const lever = leverBase ? { ...leverBase, force, action } : undefined;
+    const report = rep ? { ...rep, action, lever } : null;
+
+    // Image + overlay on one canvas
+    const c = document.createElement("canvas");
+    const scale = Math.min(1, 960 / (img.naturalWidth || 1));
+    c.width = Math.round(img.naturalWidth * scale);
+    c.height = Math.round(img.naturalHeight * scale);
+    c.getContext("2d")?.drawImage(img, 0, 0, c.width, c.height);
+    drawPoseOverlay(c, result, rep?.angles ?? null, rep?.issues ?? null, rep?.score, rep?.risk, lever, rep?.minVisibility);
+
+    return { label: file.name, report, imageUrl: c.toDataURL("image/jpeg", 0.85) };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function recordLabel(r: AssessmentRecord) {
+  const what = [r.task || r.source || "Untitled", r.worker, r.station].filter(Boolean).join(" · ");
+  return `${what} — ${new Date(r.createdAt).toLocaleDateString()}`;
+}
+
+export default function CompareAssessments() {
+  const [ready, setReady] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [records, setRecords] = useState<AssessmentRecord[]>([]);
+  const [sides, setSides] = useState<Record<SideKey, CompareSide | null>>({ before: null, after: null });
+
+  const fileRefs = { before: useRef<HTMLInputElement | null>(null), after: useRef<HTMLInputElement | null>(null) };
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setRecords(await listAssessments());
+      } catch (e: any) {
+        setErr(e?.message ?? String(e));
+      }
+      try {
+        await initPoseLandmarker();
+        setReady(true);
+      } catch (e: any) {
+        setErr(e?.message ?? String(e));
+      }
+    })();
+  }, []);
+
+  const setSide = (key: SideKey, side: CompareSide | null) => setSides((prev) => ({ ...prev, [key]: side }));
+
+  async function pickSaved(key: SideKey, id: string) {
+    if (!id) return setSide(key, null);
+    try {
+      const saved = await getAssessment(id);
+      if (!saved) return;
+      setSide(key, { label: recordLabel(saved.record), report: saved.payload.report, imageUrl: saved.record.thumbnail });
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    }
+  }
+
+  async function pickPhoto(key: SideKey, file: File) {
+    try {
+      setSide(key, await analyzePhoto(file));
+      setErr(null);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    }
+  }
+
+  const comparison = useMemo(
+    () => (sides.before?.report && sides.after?.report ? compareReports(sides.before.report, sides.after.report) : null),
+    [sides]
+  );
+
+  function exportJson() {
+    if (!comparison) return;
+    const payload = {
+      before: { label: sides.before?.label, report: sides.before?.report },
+      after: { label: sides.after?.label, report: sides.after?.report },
+      comparison,
+      generatedAt: new Date().toISOString(),
+    };
+    downloadBlob(JSON.stringify(payload, null, 2), `ergofit-comparison-${Date.now()}.json`, "application/json");
+  }
+
+  return (
+    <div className="grid">
+      <div className="card">
+        <div className="cardHeader">
+          <div className="cardTitle">Before / after comparison</div>
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+            <button
+              className="btn"
+              type="button"
+              disabled={!sides.before && !sides.after}
+              onClick={() => setSides({ before: sides.after, after: sides.before })}
+            >
+              Swap
+            </button>
+            <button className="btn" type="button" disabled={!comparison} onClick={exportJson}>
+              Export JSON
+            </button>
+            <button
+              className="btn"
+              type="button"
+              disabled={!comparison}
+              onClick={() =>
+                comparison &&
+                sides.before &&
+                sides.after &&
+                openPrintableComparison({
+                  before: sides.before,
+                  after: sides.after,
+                  comparison,
+                  generatedAt: new Date().toISOString(),
+                })
+              }
+            >
+              Printable comparison
+            </button>
+          </div>
+        </div>
+
+        <div className="cardBody">
+          <div className="compareSides">
+            {(["before", "after"] as const).map((key) => {
+              const side = sides[key];
+              return (
+                <div key={key} className="panel inputsPanel">
+                  <div className="panelSubTitle">{key === "before" ? "Before" : "After"}</div>
+                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                    <select className="input" value="" onChange={(e) => pickSaved(key, e.target.value)}>
+                      <option value="">Saved assessment…</option>
+                      {records.map((r) => (
+                        <option key={r.id} value={r.id}>
+                          {recordLabel(r)}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      className="btn"
+                      type="button"
+                      disabled={!ready}
+                      onClick={() => fileRefs[key].current?.click()}
+                    >
+                      Upload photo
+                    </button>
+                    <input
+                      ref={fileRefs[key]}
+                      type="file"
+                      accept="image/*"
+                      style={{ display: "none" }}
+                      onChange={(e) => {
+                        const f = e.target.files?.[0];
+                        if (f) pickPhoto(key, f);
+                        e.currentTarget.value = "";
+                      }}
+                    />
+                  </div>
+
+                  {side ? (
+                    <>
+                      <div className="hint">{side.label}</div>
+                      {side.imageUrl ? (
+                        <img className="historyPreview" src={side.imageUrl} alt={`${key} frame`} />
+                      ) : null}
+                      <div className="panelRow">
+                        <div className="label">ErgoScore</div>
+                        <div className="value">
+                          {side.report?.score ?? "—"} ({side.report?.risk ?? "—"})
+                        </div>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="muted">Pick a saved assessment or upload a photo</div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {comparison ? (
+            <div className="panel inputsPanel">
+              <div className="panelSubTitle">
+                Changes — {comparison.improved ? "overall improvement" : "no clear overall improvement"}
+              </div>
+              <ComparisonTables comparison={comparison} />
+            </div>
+          ) : null}
+
+          <div className="hint">
+            {ready ? "AI ready (offline)." : "Loading AI — saved assessments can still be compared."}
+            {err ? `  Error: ${err}` : ""}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,28 +1,92 @@
+import type { PoseLandmarkerResult } from "@mediapipe/tasks-vision";
 import { useEffect, useRef, useState } from "react";
-import { initPoseLandmarker, setRunningMode, detectOnVideo } from "../lib/poseEngine";
-import { buildReport } from "../lib/poseMath";
+import { createFrameScheduler, initPoseWorker, type DetectorStats } from "../lib/poseWorkerClient";
+import { buildReport, type PostureReport } from "../lib/poseMath";
 import { buildLeverReport } from "../lib/leverAnalysis";
-import { estimateForceLevel } from "../lib/forceEstimator";
 import { drawPoseOverlay } from "../lib/draw";
-import { detectActionVideo, resetActionState } from "../lib/actionDetector";
+import { createAnalysisSession } from "../lib/analysisSession";
+import { downloadBlob, snapshotFrame, type ReportMeta } from "../lib/exporters";
+import { openPrintableReport } from "../components/printDocument";
+import { summarizeExposure, type ExposureSummary } from "../lib/exposure";
+import { downloadCsv, timelineToCsv } from "../lib/csvExport";
+import {
+  createSessionRecorder,
+  dominantRisk,
+  sessionCsvFrames,
+  summarizeSession,
+  type SessionSample,
+  type SessionSummary,
+} from "../lib/liveSession";
+import { recordFromMeta, saveAssessment } from "../lib/historyStore";
+import ReportMetaFields from "../components/ReportMetaFields";
+import CalibrationPanel from "../components/CalibrationPanel";
+import AlertStatusPanel from "../components/AlertStatusPanel";
+import BreakReminderPanel from "../components/BreakReminderPanel";
+import SmoothingControls from "../components/SmoothingControls";
+import { fmtConf, isLowConf } from "../components/RightPanel";
+import { VIEW_LABELS, viewLabel, type CameraView, type ViewSetting } from "../lib/cameraView";
+import SessionSummaryPanel from "../components/SessionSummaryPanel";
+import RiskTimeline from "../components/RiskTimeline";
+import ExposurePanel from "../components/ExposurePanel";
+import { createTicker } from "../lib/backgroundTicker";
+import {
+  alertLog,
+  appendAlertLog,
+  createAlertEngine,
+  playAlertSound,
+  showAlertNotification,
+  type AlertEvent,
+} from "../lib/alertEngine";
+import { breakSettings, createBreakScheduler, showBreakNotification, type BreakState } from "../lib/breakScheduler";
+
+// Frame interval while the tab is hidden (alerts keep running, overlay is not visible)
+const BACKGROUND_TICK_MS = 500;
+// Report panel refresh interval; the overlay follows every analyzed frame
+const REPORT_UI_MS = 150;
 
 export default function LiveCamera() {
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const rafRef = useRef<number | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-
+  const sessionRef = useRef(createAnalysisSession());
+  const lastResultRef = useRef<PoseLandmarkerResult | null>(null);
+  // Latest analyzed frame, redrawn over every camera frame until the next result
+  const overlayRef = useRef<{ res: PoseLandmarkerResult | null; rep: PostureReport | null; lever: any } | null>(null);
+  const reportUiRef = useRef(0);
+  const alertsRef = useRef(createAlertEngine());
+  const recorderRef = useRef(createSessionRecorder());
+  const sessionAlertsRef = useRef(0);
+  const breaksRef = useRef(createBreakScheduler());
+  const breakUiRef = useRef(0);
+  const viewRef = useRef<ViewSetting>("auto");
+
+  const [meta, setMeta] = useState<ReportMeta>({ assessor: "", site: "", task: "" });
+  const [saved, setSaved] = useState<string | null>(null);
   const [ready, setReady] = useState(false);
   const [running, setRunning] = useState(false);
   const [err, setErr] = useState<string | null>(null);
   const [report, setReport] = useState<any>(null);
+  const [flash, setFlash] = useState(false);
+  const [stats, setStats] = useState<DetectorStats | null>(null);
+  const [alertLogList, setAlertLogList] = useState<AlertEvent[]>(alertLog);
+  const [recorded, setRecorded] = useState(0);
+  const [view, setView] = useState<ViewSetting>("auto");
+  const [breakState, setBreakState] = useState<BreakState>(() => breaksRef.current.state());
+  const [recording, setRecording] = useState<{
+    samples: SessionSample[];
+    exposure: ExposureSummary;
+    summary: SessionSummary;
+    thumb: string | null;
+    lastReport: any;
+  } | null>(null);
+  const reportRef = useRef<any>(null);
 
   // Init AI
   useEffect(() => {
     (async () => {
       try {
-        await initPoseLandmarker();
-        setRunningMode("VIDEO");
+        await initPoseWorker();
         setReady(true);
         setErr(null);
       } catch (e: any) {
@@ -35,7 +99,17 @@ export default function LiveCamera() {
   const start = async () => {
     try {
       setErr(null);
-      resetActionState(); // IMPORTANT: fresh action state each time
+      sessionRef.current.reset(); // IMPORTANT: fresh action state each time
+      alertsRef.current.reset();
+      breaksRef.current.reset();
+      setBreakState(breaksRef.current.state());
+      recorderRef.current.start(performance.now());
+      sessionAlertsRef.current = 0;
+      overlayRef.current = null;
+      setStats(null);
+      setRecorded(0);
+      setRecording(null);
+      setSaved(null);
 
       const stream = await navigator.mediaDevices.getUserMedia({
         video: { facingMode: "user" },
@@ -58,6 +132,7 @@ export default function LiveCamera() {
 
   const stop = () => {
     setRunning(false);
+    finishSession();
 
     if (rafRef.current) {
       cancelAnimationFrame(rafRef.current);
@@ -78,30 +153,147 @@ export default function LiveCamera() {
     }
   };
 
+  // Summarizes the recorded timeline; keeps the last frame as the thumbnail
+  function finishSession() {
+    const rec = recorderRef.current;
+    const samples = rec.samples();
+    if (!samples.length) return;
+    const exposure = summarizeExposure(samples);
+    const summary = summarizeSession(
+      samples,
+      {
+        startedAt: rec.startedAt(),
+        endedAt: new Date().toISOString(),
+        issueTitles: rec.issueTitles(),
+        alerts: sessionAlertsRef.current,
+      },
+      exposure
+    );
+    const thumb = canvasRef.current ? snapshotFrame(canvasRef.current, null, 320) : null;
+    setRecording({ samples: [...samples], exposure, summary, thumb, lastReport: reportRef.current });
+  }
+
+  async function saveSession() {
+    if (!recording) return;
+    const { samples, exposure, summary, thumb, lastReport } = recording;
+    try {
+      const record = recordFromMeta(
+        "live",
+        { ...meta, source: meta.source || "Live session" },
+        { score: summary.averageScore, risk: dominantRisk(summary) },
+        thumb
+      );
+      await saveAssessment(record, {
+        report: lastReport,
+        samples,
+        exposure,
+        session: summary,
+        duration: samples[samples.length - 1].t,
+      });
+      setSaved("Session saved to history.");
+    } catch (e: any) {
+      setSaved(`Save failed: ${e?.message ?? String(e)}`);
+    }
+  }
+
+  function exportSessionJson() {
+    if (!recording) return;
+    const { samples, exposure, summary } = recording;
+    downloadBlob(
+      JSON.stringify({ meta, summary, exposure, samples }, null, 2),
+      `ergofit-session-${Date.now()}.json`,
+      "application/json"
+    );
+  }
+
+  // Stores the current frame and report as a history entry
+  async function saveSnapshot() {
+    if (!report) return;
+    try {
+      const thumb = canvasRef.current ? snapshotFrame(canvasRef.current, null, 320) : null;
+      await saveAssessment(recordFromMeta("live", meta, report, thumb), { report });
+      setSaved("Snapshot saved to history.");
+    } catch (e: any) {
+      setSaved(`Save failed: ${e?.message ?? String(e)}`);
+    }
+  }
+
   // Cleanup on unmount
   useEffect(() => {
     return () => stop();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // Main loop
+  // Main loop: animation frames while visible, a worker ticker while the tab is hidden.
+  // Inference runs in the pose worker; results are analyzed as they arrive.
   useEffect(() => {
     if (!running) return;
+    let cancelled = false;
 
-    const loop = () => {
-      const v = videoRef.current;
-      const c = canvasRef.current;
+    const analyze = (raw: PoseLandmarkerResult | null, t: number) => {
+      if (cancelled) return;
+      const session = sessionRef.current;
+      const res = session.smooth(raw, t);
+      lastResultRef.current = res;
 
-      if (!v || !c) {
-        rafRef.current = requestAnimationFrame(loop);
-        return;
+      // Build reports
+      const rep = buildReport(res, { trackedView: session.view(res, t, viewRef.current) });
+      const lever = buildLeverReport(res, rep?.angles);
+
+      const action = session.detectAction(res, t, 0, rep?.view?.view);
+
+      // Force
+      const force = session.estimateForce(
+        lever?.points?.wristMid ?? null,
+        lever?.lowBackMomentIndex ?? 0,
+        t
+      );
+
+      const leverWithExtras = lever ? { ...lever, force } : undefined;
+
+      // Update UI data (throttled; the overlay uses every result)
+      overlayRef.current = { res, rep, lever: leverWithExtras };
+      if (t - reportUiRef.current >= REPORT_UI_MS) {
+        reportUiRef.current = t;
+        setReport({
+          ...rep,
+          action,
+          lever: leverWithExtras,
+        });
+        setStats(frames.stats());
       }
 
-      // Wait for video metadata
-      if (v.videoWidth === 0 || v.videoHeight === 0) {
-        rafRef.current = requestAnimationFrame(loop);
-        return;
+      // Session timeline (slim samples, about once a second)
+      const liveReport = rep ? { ...rep, action } : null;
+      reportRef.current = liveReport ? { ...liveReport, lever: leverWithExtras } : reportRef.current;
+      if (recorderRef.current.record(liveReport, force?.value, t)) setRecorded(recorderRef.current.samples().length);
+
+      // Sustained-posture alerts
+      const due = alertsRef.current.update(rep?.issues, t);
+      if (due.length) deliverAlerts(due);
+
+      // Microbreaks (UI refreshed about once a second, or when a break becomes due)
+      const breaks = breaksRef.current;
+      const breakDue = breaks.update({ landmarks: res?.landmarks?.[0], action: action?.label, issues: rep?.issues }, t);
+      if (breakDue && breakSettings().notify) {
+        playAlertSound();
+        showBreakNotification(breaks.state().reasons);
       }
+      if (breakDue || t - breakUiRef.current > 1000) {
+        breakUiRef.current = t;
+        setBreakState(breaks.state());
+      }
+    };
+
+    const frames = createFrameScheduler(analyze, (e) => setErr(e.message));
+
+    const step = () => {
+      const v = videoRef.current;
+      const c = canvasRef.current;
+      if (!v || !c) return;
+
+      // Wait for video metadata
+      if (v.videoWidth === 0 || v.videoHeight === 0) return;
 
       // Match canvas to video
       if (c.width !== v.videoWidth) c.width = v.videoWidth;
@@ -111,53 +303,56 @@ export default function LiveCamera() {
       const ctx = c.getContext("2d");
       if (ctx) ctx.drawImage(v, 0, 0, c.width, c.height);
 
-      // Inference
-      const t = performance.now();
-      const res = detectOnVideo(v, t);
-
-      // Build reports
-      const rep = buildReport(res);
-      const lever = buildLeverReport(res, rep?.angles);
-
-      // ✅ Correct export name
-      const action = detectActionVideo(res);
-
-      // Force
-      const force = estimateForceLevel(
-        lever?.points?.wristMid ?? null,
-        lever?.lowBackMomentIndex ?? 0
-      );
-
-      const leverWithExtras = lever ? { ...lever, force } : undefined;
-
-      // Update UI data
-      setReport({
-        ...rep,
-        action,
-        lever: leverWithExtras,
-      });
-
-      // Overlay
-      drawPoseOverlay(
-        c,
-        res,
-        rep?.angles ?? null,
-        rep?.issues ?? null,
-        rep?.score,
-        rep?.risk,
-        leverWithExtras
-      );
+      // Inference (skipped while the previous frame is still in the worker)
+      frames.submit(v, performance.now());
+
+      // Overlay of the latest result
+      const o = overlayRef.current;
+      if (o) {
+        drawPoseOverlay(
+          c,
+          o.res,
+          o.rep?.angles ?? null,
+          o.rep?.issues ?? null,
+          o.rep?.score,
+          o.rep?.risk,
+          o.lever,
+          o.rep?.minVisibility
+        );
+      }
+    };
 
+    const loop = () => {
+      step();
       rafRef.current = requestAnimationFrame(loop);
     };
 
     rafRef.current = requestAnimationFrame(loop);
+    const ticker = createTicker(BACKGROUND_TICK_MS, () => {
+      if (document.hidden) step();
+    });
     return () => {
+      cancelled = true;
       if (rafRef.current) cancelAnimationFrame(rafRef.current);
       rafRef.current = null;
+      ticker.stop();
     };
   }, [running]);
 
+  function deliverAlerts(due: AlertEvent[]) {
+    sessionAlertsRef.current += due.length;
+    for (const ev of due) {
+      appendAlertLog(ev);
+      if (ev.channels.includes("sound")) playAlertSound();
+      if (ev.channels.includes("notification")) showAlertNotification(ev);
+    }
+    if (due.some((ev) => ev.channels.includes("flash"))) {
+      setFlash(true);
+      window.setTimeout(() => setFlash(false), 1200);
+    }
+    setAlertLogList(alertLog());
+  }
+
   return (
     <div className="card">
       <div className="cardHeader">
@@ -169,6 +364,9 @@ export default function LiveCamera() {
           <button disabled={!running} onClick={stop}>
             Stop
           </button>
+          <button disabled={!report} onClick={saveSnapshot}>
+            Save snapshot
+          </button>
         </div>
       </div>
 
@@ -184,7 +382,110 @@ export default function LiveCamera() {
         >
           {/* LEFT — LIVE CANVAS */}
           <div style={{ position: "relative" }}>
-            <canvas ref={canvasRef} style={{ width: "100%", background: "#000" }} />
+            <canvas
+              ref={canvasRef}
+              className={flash ? "alertFlash" : undefined}
+              style={{ width: "100%", background: "#000" }}
+            />
+            {running ? (
+              <div className="hint">
+                Recording session — {recorded} samples (about one per second)
+                {stats
+                  ? ` · inference ${stats.fps} fps, ${stats.latencyMs} ms, ${stats.dropped} frames skipped (${
+                      stats.inWorker ? "worker" : "main thread"
+                    })`
+                  : ""}
+              </div>
+            ) : null}
+            {recording ? (
+              <>
+                <SessionSummaryPanel summary={recording.summary} />
+                <RiskTimeline
+                  samples={recording.samples}
+                  duration={recording.samples[recording.samples.length - 1].t}
+                />
+                <ExposurePanel summary={recording.exposure} issueTitles={recording.summary.issueTitles} />
+                <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 10 }}>
+                  <button className="btn btnPrimary" type="button" onClick={saveSession}>
+                    Save session
+                  </button>
+                  <button className="btn" type="button" onClick={exportSessionJson}>
+                    Export JSON
+                  </button>
+                  <button
+                    className="btn"
+                    type="button"
+                    onClick={() =>
+                      downloadCsv(
+                        timelineToCsv(sessionCsvFrames(recording.samples)),
+                        `ergofit-session-${Date.now()}.csv`
+                      )
+                    }
+                  >
+                    Export CSV
+                  </button>
+                  <button
+                    className="btn"
+                    type="button"
+                    onClick={() =>
+                      openPrintableReport({
+                        meta: { ...meta, source: meta.source || "Live session" },
+                        kind: "live",
+                        report: recording.lastReport,
+                        frameUrl: recording.thumb,
+                        samples: recording.samples,
+                        duration: recording.samples[recording.samples.length - 1].t,
+                        exposure: recording.exposure,
+                        session: recording.summary,
+                        generatedAt: new Date().toISOString(),
+                      })
+                    }
+                  >
+                    Printable report
+                  </button>
+                  <button className="btn" type="button" onClick={() => setRecording(null)}>
+                    Discard
+                  </button>
+                </div>
+              </>
+            ) : null}
+            <BreakReminderPanel
+              scheduler={breaksRef.current}
+              state={breakState}
+              onChange={() => setBreakState(breaksRef.current.state())}
+            />
+            <AlertStatusPanel
+              engine={alertsRef.current}
+              log={alertLogList}
+              onLogChange={() => setAlertLogList(alertLog())}
+            />
+            <div className="panel inputsPanel">
+              <div className="panelSubTitle">Camera view</div>
+              <label className="field">
+                <span className="label">View</span>
+                <select
+                  className="input"
+                  value={view}
+                  onChange={(e) => {
+                    viewRef.current = e.target.value as ViewSetting;
+                    setView(viewRef.current);
+                  }}
+                >
+                  <option value="auto">Auto-detect</option>
+                  {(Object.keys(VIEW_LABELS) as CameraView[]).map((v) => (
+                    <option key={v} value={v}>
+                      {VIEW_LABELS[v]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <div className="hint">
+                Side views measure neck tilt and reach; front views measure shoulder slope and twisting.
+              </div>
+            </div>
+            <SmoothingControls />
+            <CalibrationPanel canvasRef={canvasRef} getResult={() => lastResultRef.current} />
+            <ReportMetaFields value={meta} onChange={setMeta} />
           </div>
 
           {/* RIGHT — DETAILS */}
@@ -206,6 +507,9 @@ export default function LiveCamera() {
               <strong>Risk:</strong>{" "}
               {typeof report?.risk === "string" ? report.risk : report?.risk?.level ?? "-"}
             </div>
+            <div>
+              <strong>View:</strong> {report?.view ? viewLabel(report.view) : "-"}
+            </div>
 
             <hr style={{ margin: "8px 0", opacity: 0.3 }} />
 
@@ -231,7 +535,11 @@ export default function LiveCamera() {
             {report?.angles ? (
               Object.entries(report.angles).map(([k, v]) => (
                 <div key={k}>
-                  {k}: {Number(v).toFixed(0)}°
+                  {k}: {Number(v).toFixed(0)}
+                  {k === "shoulderSlope" || k === "reach" ? ` ${report.lengthUnit ?? "%"}` : "°"}
+                  {isLowConf(report.angleConfidence?.[k], report.minVisibility ?? 0.5) ? (
+                    <span className="lowConf"> ⚠ {fmtConf(report.angleConfidence[k])}</span>
+                  ) : null}
                 </div>
               ))
             ) : (
@@ -245,6 +553,9 @@ export default function LiveCamera() {
               report.issues.map((it: any) => (
                 <div key={it.id} style={{ marginTop: 6 }}>
                   ⚠ {it.title}
+                  {isLowConf(it.confidence, report.minVisibility ?? 0.5) ? (
+                    <div className="lowConf">Measured from poorly visible joints ({fmtConf(it.confidence)})</div>
+                  ) : null}
                 </div>
               ))
             ) : (
@@ -254,7 +565,7 @@ export default function LiveCamera() {
         </div>
 
         <div className="hint" style={{ marginTop: 8 }}>
-          {ready ? "AI ready" : "Loading AI"} {err ? `— ${err}` : ""}
+          {ready ? "AI ready" : "Loading AI"} {err ? `— ${err}` : ""} {saved ?? ""}
         </div>
       </div>
     </div>
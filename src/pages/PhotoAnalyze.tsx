@@ -1,12 +1,18 @@
+import type { PoseLandmarkerResult } from "@mediapipe/tasks-vision";
 import { useEffect, useMemo, useRef, useState } from "react";
 import { initPoseLandmarker, setRunningMode, detectOnImage } from "../lib/poseEngine";
-import { buildReport, type PostureReport } from "../lib/poseMath";
+import { buildReport, type PostureReport, type ReportOptions } from "../lib/poseMath";
 import { drawPoseOverlay } from "../lib/draw";
-import { downloadCanvasPng, downloadJson } from "../lib/exporters";
+import { downloadCanvasPng, downloadJson, snapshotFrame, type ReportMeta } from "../lib/exporters";
+import { openPrintableReport } from "../components/printDocument";
 import { buildLeverReport } from "../lib/leverAnalysis";
 import { detectActionImage } from "../lib/actionDetector";
 import { estimateForceLevel } from "../lib/forceEstimator";
 import RightPanel from "../components/RightPanel";
+import AssessmentInputs from "../components/AssessmentInputs";
+import ReportMetaFields from "../components/ReportMetaFields";
+import CalibrationPanel from "../components/CalibrationPanel";
+import { recordFromMeta, saveAssessment } from "../lib/historyStore";
 
 export default function PhotoAnalyze() {
   const imgRef = useRef<HTMLImageElement | null>(null);
@@ -18,6 +24,11 @@ export default function PhotoAnalyze() {
 
   const [report, setReport] = useState<PostureReport | any | null>(null);
   const [imgUrl, setImgUrl] = useState<string | null>(null);
+  const [result, setResult] = useState<PoseLandmarkerResult | null>(null);
+  const [options, setOptions] = useState<ReportOptions>({});
+  const [meta, setMeta] = useState<ReportMeta>({ assessor: "", site: "", task: "" });
+  const [fileName, setFileName] = useState("");
+  const [saved, setSaved] = useState<string | null>(null);
 
   useEffect(() => {
     (async () => {
@@ -47,39 +58,61 @@ export default function PhotoAnalyze() {
       if (!ready) return;
 
       setRunningMode("IMAGE");
-      const res = detectOnImage(img);
-      const rep = buildReport(res);
-
-      const leverBase = buildLeverReport(res, rep?.angles);
-      const action = detectActionImage(res);
-
-      const force = estimateForceLevel(
-        leverBase?.points?.wristMid ?? null,
-        leverBase?.lowBackMomentIndex ?? 0
-      );
-
-      const lever = leverBase ? { ...leverBase, force, action } : undefined;
-
-      const next = {
-        ...rep,
-        action,
-        lever,
-      };
-
-      setReport(next);
-
-      drawPoseOverlay(
-        c,
-        res,
-        rep?.angles ?? null,
-        rep?.issues ?? null,
-        rep?.score,
-        rep?.risk,
-        lever
-      );
+      setResult(detectOnImage(img));
     };
   }, [imgUrl, ready]);
 
+  // Rebuild the report whenever the detection or the assessment inputs change
+  useEffect(() => {
+    const c = canvasRef.current;
+    if (!c || !result) return;
+
+    const rep = buildReport(result, options);
+
+    const leverBase = buildLeverReport(result, rep?.angles, options.visibility, options.calibration, options.body);
+    const action = detectActionImage(result, rep?.view?.view);
+
+    const force = estimateForceLevel(
+      leverBase?.points?.wristMid ?? null,
+      leverBase?.lowBackMomentIndex ?? 0
+    );
+
+    const lever = leverBase ? { ...leverBase, force, action } : undefined;
+
+    const next = {
+      ...rep,
+      action,
+      lever,
+    };
+
+    setReport(next);
+
+    const ctx = c.getContext("2d");
+    if (ctx) ctx.clearRect(0, 0, c.width, c.height);
+
+    drawPoseOverlay(
+      c,
+      result,
+      rep?.angles ?? null,
+      rep?.issues ?? null,
+      rep?.score,
+      rep?.risk,
+      lever,
+      rep?.minVisibility
+    );
+  }, [result, options]);
+
+  async function saveToHistory() {
+    if (!report) return;
+    try {
+      const thumb = imgRef.current ? snapshotFrame(imgRef.current, canvasRef.current, 320) : null;
+      await saveAssessment(recordFromMeta("photo", { ...meta, source: fileName }, report, thumb), { report, options });
+      setSaved("Saved to history.");
+    } catch (e: any) {
+      setSaved(`Save failed: ${e?.message ?? String(e)}`);
+    }
+  }
+
   const badgeClass = useMemo(() => {
     if (!report) return "badge";
     return report.risk === "Low"
@@ -114,12 +147,14 @@ export default function PhotoAnalyze() {
                 if (!f) return;
 
                 setReport(null);
+                setResult(null);
 
                 if (canvasRef.current) {
                   const ctx = canvasRef.current.getContext("2d");
                   if (ctx) ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
                 }
 
+                setFileName(f.name);
                 setImgUrl(URL.createObjectURL(f));
                 e.currentTarget.value = "";
               }}
@@ -156,13 +191,43 @@ export default function PhotoAnalyze() {
                   Export JSON report
                 </button>
 
+                <button
+                  className="btn"
+                  type="button"
+                  disabled={!report}
+                  onClick={() =>
+                    openPrintableReport({
+                      meta: { ...meta, source: fileName },
+                      kind: "photo",
+                      report,
+                      frameUrl: imgRef.current ? snapshotFrame(imgRef.current, canvasRef.current) : null,
+                      generatedAt: new Date().toISOString(),
+                    })
+                  }
+                >
+                  Printable report
+                </button>
+
+                <button className="btn" type="button" disabled={!report} onClick={saveToHistory}>
+                  Save to history
+                </button>
+
                 <span className={badgeClass}>{report?.risk ?? "—"}</span>
               </div>
 
               <div className="hint" style={{ marginTop: 10 }}>
                 {ready ? "AI ready (offline)." : "AI not ready yet — you can still upload photos."}
                 {err ? `  Error: ${err}` : ""}
+                {saved ? `  ${saved}` : ""}
               </div>
+
+              <AssessmentInputs value={options} onChange={setOptions} />
+              <CalibrationPanel
+                canvasRef={canvasRef}
+                getResult={() => result}
+                onChange={(calibration) => setOptions((o) => ({ ...o, calibration }))}
+              />
+              <ReportMetaFields value={meta} onChange={setMeta} />
             </div>
 
             {/* RIGHT */}
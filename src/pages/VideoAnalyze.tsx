@@ -1,14 +1,95 @@
-import { useEffect, useRef, useState } from "react";
-import { initPoseLandmarker, setRunningMode, detectOnVideo } from "../lib/poseEngine";
-import { buildReport, type PostureReport } from "../lib/poseMath";
-import { drawPoseOverlay } from "../lib/draw";
-import { downloadJson } from "../lib/exporters";
+import type { Landmark, NormalizedLandmark, PoseLandmarkerResult } from "@mediapipe/tasks-vision";
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  createFrameScheduler,
+  detectVideoFrame,
+  initPoseWorker,
+  restartVideoTimeline,
+  setWorkerNumPoses,
+} from "../lib/poseWorkerClient";
+import { buildReport, type PostureReport, type ReportOptions } from "../lib/poseMath";
+import { drawPoseOverlay, drawTrackedPoses } from "../lib/draw";
+import { downloadBlob, downloadJson, snapshotFrame, type ReportMeta } from "../lib/exporters";
+import { openPrintableReport } from "../components/printDocument";
 import { buildLeverReport } from "../lib/leverAnalysis";
-import { detectActionVideo, resetActionState } from "../lib/actionDetector";
-import { estimateForceLevel } from "../lib/forceEstimator";
+import type { ActionLabel, ActionResult } from "../lib/actionDetector";
+import { createAnalysisSession } from "../lib/analysisSession";
+import { frameTimes, seekVideo } from "../lib/videoFrames";
+import { downloadCsv, timelineToCsv } from "../lib/csvExport";
+import { DEFAULT_STATIC_SECONDS, summarizeExposure } from "../lib/exposure";
+import { extractLiftEvents, liftSummary, measureLift, type LiftGeometry } from "../lib/niosh";
 import RightPanel from "../components/RightPanel";
+import RiskTimeline, { type TimelineSample } from "../components/RiskTimeline";
+import ExposurePanel from "../components/ExposurePanel";
+import ReportMetaFields from "../components/ReportMetaFields";
+import CalibrationPanel from "../components/CalibrationPanel";
+import { recordFromMeta, saveAssessment } from "../lib/historyStore";
+import type { WorstFrame } from "../components/PrintableReport";
+import AssessmentInputs from "../components/AssessmentInputs";
+import SmoothingControls from "../components/SmoothingControls";
+
+type Sample = TimelineSample & {
+  action?: ActionLabel;
+  lift?: LiftGeometry | null;
+  // Full frame report, shown again when the timeline is clicked
+  report?: any;
+  // Raw landmarks, for the CSV export
+  landmarks?: NormalizedLandmark[];
+  worldLandmarks?: Landmark[];
+};
+
+// Track 0 is the single-person timeline; multi-person tracks start at 1
+type TrackInfo = { id: number; color: string };
+type Person = TrackInfo & { result: PoseLandmarkerResult | null };
+
+type Analyzed = {
+  person: Person;
+  rep: PostureReport | null;
+  lever: any;
+  next: any;
+  action: ActionResult;
+  liftGeom: LiftGeometry | null;
+};
+
+const MAX_PEOPLE = 3;
+const PROCESS_FPS = [5, 10, 15, 30];
+const WORST_FRAMES = 4;
+// Report and timeline refresh interval during playback; the overlay follows every result
+const REPORT_UI_MS = 150;
+
+// Lowest-scoring samples, at least `minGap` seconds apart
+function worstSamples(samples: Sample[], count: number, minGap: number) {
+  const out: Sample[] = [];
+  for (const s of [...samples].sort((a, b) => a.score - b.score)) {
+    if (out.length >= count) break;
+    if (out.every((o) => Math.abs(o.t - s.t) >= minGap)) out.push(s);
+  }
+  return out.sort((a, b) => a.t - b.t);
+}
 
-type Sample = { t: number; score: number; risk: "Low" | "Medium" | "High" };
+// Adds one sample per analyzed person; `cap` keeps a rolling window (0 = unlimited)
+function appendSamples(prev: Record<number, Sample[]>, analyzed: Analyzed[], timeSec: number, cap = 0) {
+  const out = { ...prev };
+  for (const a of analyzed) {
+    const risk = (a.rep?.risk ?? "Low") as any;
+    const score = Number(a.rep?.score ?? 0);
+    const nextSample: Sample = {
+      t: timeSec,
+      score,
+      risk,
+      action: a.action.label,
+      force: a.lever?.force?.value,
+      issues: (a.rep?.issues ?? []).map((i) => i.id),
+      lift: a.liftGeom,
+      report: a.next,
+      landmarks: a.person.result?.landmarks?.[0],
+      worldLandmarks: a.person.result?.worldLandmarks?.[0],
+    };
+    const list = out[a.person.id] ?? [];
+    out[a.person.id] = cap && list.length >= cap ? [...list.slice(-(cap - 1)), nextSample] : [...list, nextSample];
+  }
+  return out;
+}
 
 export default function VideoAnalyze() {
   const videoRef = useRef<HTMLVideoElement | null>(null);
@@ -21,13 +102,39 @@ export default function VideoAnalyze() {
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [running, setRunning] = useState(false);
   const [report, setReport] = useState<PostureReport | any | null>(null);
-  const [samples, setSamples] = useState<Sample[]>([]);
+  const [timelines, setTimelines] = useState<Record<number, Sample[]>>({});
+  const [options, setOptions] = useState<ReportOptions>({});
+  const [multi, setMulti] = useState(false);
+  const [tracks, setTracks] = useState<TrackInfo[]>([]);
+  const [selectedTrack, setSelectedTrack] = useState(0);
+  const [currentT, setCurrentT] = useState(0);
+  const [staticSeconds, setStaticSeconds] = useState(DEFAULT_STATIC_SECONDS);
+  const [meta, setMeta] = useState<ReportMeta>({ assessor: "", site: "", task: "" });
+  const [fileName, setFileName] = useState("");
+  const [csvLandmarks, setCsvLandmarks] = useState(false);
+  const [saved, setSaved] = useState<string | null>(null);
+  const [processFps, setProcessFps] = useState(10);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const cancelRef = useRef(false);
+
+  // Read by the sampling loop without restarting it
+  const optionsRef = useRef<ReportOptions>(options);
+  optionsRef.current = options;
+  const selectedRef = useRef(selectedTrack);
+  selectedRef.current = selectedTrack;
+  const multiRef = useRef(multi);
+  multiRef.current = multi;
+
+  // Temporal state (action, force, tracking) for the loaded video
+  const sessionRef = useRef(createAnalysisSession());
+  const lastResultRef = useRef<PoseLandmarkerResult | null>(null);
+
+  const samples = timelines[selectedTrack] ?? [];
 
   useEffect(() => {
     (async () => {
       try {
-        resetActionState();
-        await initPoseLandmarker();
+        await initPoseWorker();
         setReady(true);
         setErr(null);
       } catch (e: any) {
@@ -38,9 +145,118 @@ export default function VideoAnalyze() {
     })();
   }, []);
 
+  // The landmarker is shared with the other tabs; leave it in single-person mode
+  useEffect(() => {
+    return () => {
+      setWorkerNumPoses(1);
+    };
+  }, []);
+
+  // Per-person analysis of one detection, stamped with the video time it was taken at
+  function analyzeFrame(raw: PoseLandmarkerResult | null, timeSec: number, aspect: number) {
+    // Analysis runs on video time, so replays and seeks give the same results
+    const tMs = timeSec * 1000;
+    const session = sessionRef.current;
+    const opts = optionsRef.current;
+
+    // Tracks are matched on raw detections, then smoothed per track ID
+    const tracked = multiRef.current
+      ? session.tracker.update(raw).map((p) => ({ ...p, result: session.smooth(p.result, tMs, p.id) ?? p.result }))
+      : null;
+    const res = tracked ? raw : session.smooth(raw, tMs);
+    lastResultRef.current = res;
+    const persons: Person[] = tracked ?? [{ id: 0, color: "#fff", result: res }];
+
+    // Each person gets isolated action/force state, keyed by track ID
+    const analyzed: Analyzed[] = persons.map((p) => {
+      const rep = buildReport(p.result, { ...opts, trackedView: session.view(p.result, tMs, opts.view, p.id) });
+
+      const leverBase = buildLeverReport(p.result, rep?.angles, opts.visibility, opts.calibration, opts.body);
+      const action = session.detectAction(p.result, tMs, p.id, rep?.view?.view);
+
+      const force = session.estimateForce(
+        leverBase?.points?.wristMid ?? null,
+        leverBase?.lowBackMomentIndex ?? 0,
+        tMs,
+        p.id
+      );
+
+      const lever = leverBase ? { ...leverBase, force, action } : undefined;
+      const liftGeom = measureLift(p.result, opts.niosh?.statureCm, aspect, opts.calibration);
+
+      return { person: p, rep, lever, next: { ...rep, action, lever, trackId: p.id }, action, liftGeom };
+    });
+
+    return { tracked, analyzed };
+  }
+
+  // `updateReport` false only redraws the overlay (throttled playback)
+  function showFrame(c: HTMLCanvasElement, { tracked, analyzed }: ReturnType<typeof analyzeFrame>, updateReport = true) {
+    const selected =
+      analyzed.find((a) => a.person.id === selectedRef.current) ?? (multiRef.current ? analyzed[0] : undefined);
+
+    if (updateReport) setReport(selected?.next ?? null);
+
+    const ctx = c.getContext("2d");
+    if (ctx) ctx.clearRect(0, 0, c.width, c.height);
+
+    drawPoseOverlay(
+      c,
+      selected?.person.result ?? null,
+      selected?.rep?.angles ?? null,
+      selected?.rep?.issues ?? null,
+      selected?.rep?.score,
+      selected?.rep?.risk,
+      selected?.lever,
+      selected?.rep?.minVisibility
+    );
+    if (tracked) {
+      drawTrackedPoses(c, tracked, selected?.person.id);
+      setTracks((prev) => {
+        const ids = tracked.map((p) => p.id).join(",");
+        return prev.map((t) => t.id).join(",") === ids ? prev : tracked.map(({ id, color }) => ({ id, color }));
+      });
+    }
+  }
+
   useEffect(() => {
     let raf = 0;
     let lastSampleMs = 0;
+    let lastUiMs = 0;
+    let cancelled = false;
+    // Analyzed frames not yet in the timeline state, and the latest one not yet in the report
+    let pending: { analyzed: Analyzed[]; timeSec: number }[] = [];
+    let unshown: ReturnType<typeof analyzeFrame> | null = null;
+
+    // Timeline, one per track (rolling window during playback)
+    const flush = () => {
+      if (!pending.length) return;
+      const batch = pending;
+      pending = [];
+      setTimelines((prev) => batch.reduce((acc, p) => appendSamples(acc, p.analyzed, p.timeSec, 500), prev));
+    };
+
+    // Results arrive asynchronously from the pose worker; one frame in flight at a time
+    const frames = createFrameScheduler(
+      (raw, tMs) => {
+        const c = canvasRef.current;
+        if (cancelled || !c) return;
+        const timeSec = tMs / 1000;
+        const frame = analyzeFrame(raw, timeSec, c.width / c.height);
+        pending.push({ analyzed: frame.analyzed, timeSec });
+
+        // Every result is drawn; the report and timeline re-render at most every REPORT_UI_MS
+        const now = performance.now();
+        const refresh = now - lastUiMs >= REPORT_UI_MS;
+        showFrame(c, frame, refresh);
+        unshown = refresh ? null : frame;
+        if (refresh) {
+          lastUiMs = now;
+          flush();
+        }
+      },
+      (e) => setErr(e.message)
+    );
 
     const loop = (t: number) => {
       raf = requestAnimationFrame(loop);
@@ -58,56 +274,46 @@ export default function VideoAnalyze() {
       if (c.width !== v.videoWidth) c.width = v.videoWidth;
       if (c.height !== v.videoHeight) c.height = v.videoHeight;
 
-      setRunningMode("VIDEO");
-      const res = detectOnVideo(v, performance.now());
-      const rep = buildReport(res);
-
-      const leverBase = buildLeverReport(res, rep?.angles);
-      const action = detectActionVideo(res);
+      frames.submit(v, (v.currentTime ?? 0) * 1000);
+    };
 
-      const force = estimateForceLevel(
-        leverBase?.points?.wristMid ?? null,
-        leverBase?.lowBackMomentIndex ?? 0
-      );
+    raf = requestAnimationFrame(loop);
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(raf);
+      // Paused: show where playback stopped
+      if (unshown && canvasRef.current) showFrame(canvasRef.current, unshown);
+      flush();
+    };
+  }, [running]);
 
-      const lever = leverBase ? { ...leverBase, force, action } : undefined;
+  // NIOSH lift events from the "Lifting motion" runs in the timeline
+  const lifts = useMemo(() => extractLiftEvents(samples, options.niosh ?? {}), [samples, options.niosh]);
 
-      const next = {
-        ...rep,
-        action,
-        lever,
-      };
-
-      setReport(next);
-
-      drawPoseOverlay(
-        c,
-        res,
-        rep?.angles ?? null,
-        rep?.issues ?? null,
-        rep?.score,
-        rep?.risk,
-        lever
-      );
+  // Time and frequency per posture issue / action
+  const exposure = useMemo(() => summarizeExposure(samples, { staticSeconds }), [samples, staticSeconds]);
+  const issueTitles = useMemo(() => {
+    const out: Record<string, string> = {};
+    for (const s of samples) for (const i of s.report?.issues ?? []) out[i.id] = i.title;
+    return out;
+  }, [samples]);
 
-      // timeline
-      const timeSec = v.currentTime ?? 0;
-      setSamples((prev) => {
-        const risk = (rep?.risk ?? "Low") as any;
-        const score = Number(rep?.score ?? 0);
-        const nextSample: Sample = { t: timeSec, score, risk };
-        return prev.length > 500 ? [...prev.slice(-499), nextSample] : [...prev, nextSample];
-      });
-    };
+  function resetAnalysis() {
+    setTimelines({});
+    setTracks([]);
+    setReport(null);
+    sessionRef.current.reset();
+  }
 
-    raf = requestAnimationFrame(loop);
-    return () => cancelAnimationFrame(raf);
-  }, [running]);
+  async function toggleMulti(on: boolean) {
+    setMulti(on);
+    setSelectedTrack(on ? 1 : 0);
+    resetAnalysis();
+    await setWorkerNumPoses(on ? MAX_PEOPLE : 1);
+  }
 
   async function onLoadedData() {
-    setSamples([]);
-    setReport(null);
-    resetActionState();
+    resetAnalysis();
 
     // Prime play/pause so dimensions are ready
     const v = videoRef.current;
@@ -120,6 +326,139 @@ export default function VideoAnalyze() {
     }
   }
 
+  // Offline mode: seek through every target frame instead of sampling playback
+  async function processWholeFile() {
+    const v = videoRef.current;
+    const c = canvasRef.current;
+    if (!v || !c || !ready) return;
+
+    stop();
+    resetAnalysis();
+    cancelRef.current = false;
+
+    const times = frameTimes(v.duration, processFps);
+    setProgress({ done: 0, total: times.length });
+
+    let all: Record<number, Sample[]> = {};
+    try {
+      // Same results regardless of earlier playback or runs
+      await restartVideoTimeline();
+      for (let i = 0; i < times.length; i++) {
+        if (cancelRef.current) break;
+        await seekVideo(v, times[i]);
+
+        if (c.width !== v.videoWidth) c.width = v.videoWidth;
+        if (c.height !== v.videoHeight) c.height = v.videoHeight;
+
+        const frame = analyzeFrame(await detectVideoFrame(v, times[i] * 1000), times[i], c.width / c.height);
+        all = appendSamples(all, frame.analyzed, times[i]);
+
+        // Keep the UI responsive without re-rendering on every frame
+        if (i % 5 === 0 || i === times.length - 1) {
+          showFrame(c, frame);
+          setProgress({ done: i + 1, total: times.length });
+        }
+      }
+      setTimelines(all);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setProgress(null);
+    }
+  }
+
+  // Timeline click: jump the video there and show that moment's stored report
+  function seekTo(t: number) {
+    const v = videoRef.current;
+    if (!v || progress) return;
+    stop();
+    v.currentTime = t;
+    setCurrentT(t);
+
+    const nearest = samples.reduce<Sample | null>(
+      (best, s) => (!best || Math.abs(s.t - t) < Math.abs(best.t - t) ? s : best),
+      null
+    );
+    if (nearest?.report) setReport(nearest.report);
+
+    // The live overlay belongs to another frame
+    const c = canvasRef.current;
+    c?.getContext("2d")?.clearRect(0, 0, c.width, c.height);
+  }
+
+  // Seeks to each worst moment and renders a thumbnail with the stored scores
+  async function captureWorstFrames(): Promise<WorstFrame[]> {
+    const v = videoRef.current;
+    if (!v || !samples.length) return [];
+    const restoreT = v.currentTime;
+    const minGap = Math.max(1, (v.duration || 0) / (WORST_FRAMES * 2));
+    const out: WorstFrame[] = [];
+
+    for (const s of worstSamples(samples, WORST_FRAMES, minGap)) {
+      await seekVideo(v, s.t);
+      const overlay = document.createElement("canvas");
+      overlay.width = v.videoWidth;
+      overlay.height = v.videoHeight;
+      // In multi-person mode the detection order is not the track order, so skip the skeleton
+      const res = multi ? null : await detectVideoFrame(v, s.t * 1000);
+      const rep = s.report;
+      drawPoseOverlay(overlay, res, rep?.angles ?? null, rep?.issues ?? null, s.score, s.risk, rep?.lever, rep?.minVisibility);
+      const url = snapshotFrame(v, overlay, 480);
+      if (url) out.push({ t: s.t, score: s.score, risk: s.risk, url });
+    }
+    await seekVideo(v, restoreT);
+    return out;
+  }
+
+  function printReport() {
+    const v = videoRef.current;
+    if (!v || !report) return;
+    stop();
+    const frameUrl = snapshotFrame(v, canvasRef.current);
+
+    // A failed seek or detection closes the blank window and shows the error
+    setErr(null);
+    openPrintableReport(
+      captureWorstFrames().then((worstFrames) => ({
+        meta: { ...meta, source: fileName + (multi && report.trackId ? ` (worker #${report.trackId})` : "") },
+        kind: "video" as const,
+        report,
+        frameUrl,
+        samples,
+        duration: v.duration,
+        worstFrames,
+        exposure,
+        lifts,
+        generatedAt: new Date().toISOString(),
+      }))
+    ).catch((e: any) => setErr(`Report failed: ${e?.message ?? String(e)}`));
+  }
+
+  async function saveToHistory() {
+    const v = videoRef.current;
+    if (!report) return;
+    // Landmarks are only needed for the CSV export; keep the stored timeline small
+    const slim = (list: Sample[]) => list.map(({ landmarks, worldLandmarks, ...rest }) => rest);
+    const niosh = options.niosh ?? {};
+    try {
+      const thumb = v ? snapshotFrame(v, canvasRef.current, 320) : null;
+      await saveAssessment(recordFromMeta("video", { ...meta, source: fileName }, report, thumb), {
+        report,
+        options,
+        samples: slim(samples),
+        exposure,
+        lifting: { inputs: niosh, events: lifts },
+        tracks: multi
+          ? Object.entries(timelines).map(([id, list]) => ({ trackId: Number(id), samples: slim(list) }))
+          : undefined,
+        duration: v?.duration,
+      });
+      setSaved("Saved to history.");
+    } catch (e: any) {
+      setSaved(`Save failed: ${e?.message ?? String(e)}`);
+    }
+  }
+
   function start() {
     if (!videoRef.current) return;
     setRunning(true);
@@ -131,20 +470,43 @@ export default function VideoAnalyze() {
     videoRef.current?.pause();
   }
 
+  // One row per processed frame; multi-person mode exports every worker with a track_id column
+  const exportCsv = () => {
+    const entries = multi ? Object.entries(timelines) : [["0", samples] as const];
+    const frames = entries
+      .flatMap(([id, list]) =>
+        list.map((s) => ({
+          t: s.t,
+          trackId: multi ? Number(id) : undefined,
+          report: s.report,
+          landmarks: s.landmarks,
+          worldLandmarks: s.worldLandmarks,
+        }))
+      )
+      .sort((a, b) => a.t - b.t || (a.trackId ?? 0) - (b.trackId ?? 0));
+    downloadCsv(timelineToCsv(frames, { landmarks: csvLandmarks }));
+  };
+
   const exportTimeline = () => {
     if (!report) return;
+    const niosh = options.niosh ?? {};
     const payload = {
       latest: report,
       samples,
+      lifting: { inputs: niosh, events: lifts },
+      exposure,
+      // Multi-person mode: a separate timeline per tracked worker
+      tracks: multi
+        ? Object.entries(timelines).map(([id, list]) => ({
+            trackId: Number(id),
+            samples: list,
+            lifting: { inputs: niosh, events: extractLiftEvents(list, niosh) },
+            exposure: summarizeExposure(list, { staticSeconds }),
+          }))
+        : undefined,
       generatedAt: new Date().toISOString(),
     };
-    const blob = new Blob([JSON.stringify(payload, null, 2)], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `ergofit-video-report-${Date.now()}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(JSON.stringify(payload, null, 2), `ergofit-video-report-${Date.now()}.json`, "application/json");
   };
 
   return (
@@ -168,9 +530,9 @@ export default function VideoAnalyze() {
                 if (!f) return;
 
                 stop();
-                setReport(null);
-                setSamples([]);
+                resetAnalysis();
 
+                setFileName(f.name);
                 const url = URL.createObjectURL(f);
                 setVideoUrl(url);
 
@@ -178,19 +540,65 @@ export default function VideoAnalyze() {
               }}
             />
 
-            <button className="btn" disabled={!videoUrl || !ready || running} onClick={start} type="button">
+            <button className="btn" disabled={!videoUrl || !ready || running || !!progress} onClick={start} type="button">
               Start
             </button>
             <button className="btn" disabled={!running} onClick={stop} type="button">
               Stop
             </button>
 
+            <select
+              className="input"
+              value={processFps}
+              disabled={!!progress}
+              onChange={(e) => setProcessFps(Number(e.target.value))}
+              title="Frames analyzed per second of video"
+            >
+              {PROCESS_FPS.map((f) => (
+                <option key={f} value={f}>
+                  {f} fps
+                </option>
+              ))}
+            </select>
+            {progress ? (
+              <button className="btn" type="button" onClick={() => (cancelRef.current = true)}>
+                Cancel
+              </button>
+            ) : (
+              <button className="btn" disabled={!videoUrl || !ready} onClick={processWholeFile} type="button">
+                Process whole file
+              </button>
+            )}
+
+            <label className="check">
+              <input
+                type="checkbox"
+                checked={multi}
+                disabled={running || !ready || !!progress}
+                onChange={(e) => toggleMulti(e.target.checked)}
+              />
+              Multi-person (up to {MAX_PEOPLE})
+            </label>
+
             <button className="btn" disabled={!report} onClick={() => report && downloadJson(report)} type="button">
               Export latest frame JSON
             </button>
             <button className="btn" disabled={!samples.length} onClick={exportTimeline} type="button">
               Export timeline JSON
             </button>
+            <button className="btn" disabled={!samples.length} onClick={exportCsv} type="button">
+              Export CSV
+            </button>
+            <label className="check">
+              <input type="checkbox" checked={csvLandmarks} onChange={(e) => setCsvLandmarks(e.target.checked)} />
+              CSV: raw landmarks
+            </label>
+            <button className="btn" disabled={!report || !!progress} onClick={printReport} type="button">
+              Printable report
+            </button>
+            <button className="btn" disabled={!report || !!progress} onClick={saveToHistory} type="button">
+              Save to history
+            </button>
           </div>
         </div>
 
@@ -208,6 +616,7 @@ export default function VideoAnalyze() {
                     controls
                     playsInline
                     onLoadedData={onLoadedData}
+                    onTimeUpdate={(e) => setCurrentT(e.currentTarget.currentTime)}
                   />
                 ) : null}
                 <canvas ref={canvasRef} className="stageCanvas" />
@@ -216,17 +625,80 @@ export default function VideoAnalyze() {
               <div className="hint" style={{ marginTop: 10 }}>
                 {ready ? "AI ready (offline)." : "AI not ready yet."}
                 {err ? `  Error: ${err}` : ""}
+                {saved ? `  ${saved}` : ""}
               </div>
 
+              {progress ? (
+                <div className="progress">
+                  <div className="progressBar" style={{ width: `${(progress.done / Math.max(progress.total, 1)) * 100}%` }} />
+                  <div className="progressLabel">
+                    Processing frame {progress.done} / {progress.total}
+                  </div>
+                </div>
+              ) : null}
+
+              {multi && tracks.length ? (
+                <div className="trackChips">
+                  {tracks.map((t) => (
+                    <button
+                      key={t.id}
+                      type="button"
+                      className={`btn trackChip ${t.id === selectedTrack ? "tabActive" : ""}`}
+                      style={{ borderColor: t.color, color: t.color }}
+                      onClick={() => setSelectedTrack(t.id)}
+                    >
+                      Worker #{t.id}
+                    </button>
+                  ))}
+                </div>
+              ) : null}
+
               {samples.length ? (
-                <div className="hint" style={{ marginTop: 8 }}>
-                  Timeline samples: {samples.length} (latest time: {samples[samples.length - 1].t.toFixed(1)}s)
+                <>
+                  <div className="hint" style={{ marginTop: 8 }}>
+                    Timeline samples: {samples.length} (latest time: {samples[samples.length - 1].t.toFixed(1)}s) —
+                    click or drag the chart to review a moment
+                  </div>
+                  <RiskTimeline
+                    samples={samples}
+                    duration={videoRef.current?.duration}
+                    current={currentT}
+                    onSeek={seekTo}
+                  />
+                </>
+              ) : null}
+
+              <ExposurePanel summary={exposure} issueTitles={issueTitles} onStaticSecondsChange={setStaticSeconds} />
+
+              {lifts.length ? (
+                <div className="panel inputsPanel">
+                  <div className="panelSubTitle">Lift events (NIOSH)</div>
+                  {lifts.map((l, i) => (
+                    <div className="panelRow" key={`${l.start}-${i}`}>
+                      <div className="label">
+                        {l.start.toFixed(1)}–{l.end.toFixed(1)}s · V {Math.round(l.origin.v)}→
+                        {Math.round(l.destination.v)} cm · H {Math.round(l.origin.h)} cm
+                      </div>
+                      <div className="value">
+                        RWL {l.rwlOrigin} kg · {liftSummary(l)}
+                      </div>
+                    </div>
+                  ))}
                 </div>
               ) : null}
+
+              <AssessmentInputs value={options} onChange={setOptions} showLifting />
+              <SmoothingControls />
+              <CalibrationPanel
+                canvasRef={canvasRef}
+                getResult={() => lastResultRef.current}
+                onChange={(calibration) => setOptions((o) => ({ ...o, calibration }))}
+              />
+              <ReportMetaFields value={meta} onChange={setMeta} />
             </div>
 
             {/* RIGHT */}
-            <RightPanel report={report} title="Details" />
+            <RightPanel report={report} title={multi && report?.trackId ? `Details — worker #${report.trackId}` : "Details"} />
           </div>
         </div>
       </div>
@@ -1,12 +1,48 @@
-import { defineConfig } from "vite";
+import { createHash } from "node:crypto";
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 import { VitePWA } from "vite-plugin-pwa";
 import { viteStaticCopy } from "vite-plugin-static-copy";
 
+// SHA-256 manifest of the MediaPipe runtime and the pose models in public/models;
+// the app verifies its offline copies against it (src/lib/offlineAssets.ts)
+function assetManifest(): Plugin {
+  const build = () => {
+    const assets: Record<string, { sha256: string; bytes: number }> = {};
+    const add = (dir: string, urlBase: string, keep: (file: string) => boolean) => {
+      if (!existsSync(dir)) return;
+      for (const file of readdirSync(dir).filter(keep)) {
+        const buf = readFileSync(`${dir}/${file}`);
+        assets[`${urlBase}/${file}`] = { sha256: createHash("sha256").update(buf).digest("hex"), bytes: buf.length };
+      }
+    };
+    add("node_modules/@mediapipe/tasks-vision/wasm", "/wasm", () => true);
+    add("public/models", "/models", (file) => file.endsWith(".task"));
+    return JSON.stringify({ version: 1, assets }, null, 2);
+  };
+
+  return {
+    name: "ergofit-asset-manifest",
+    configureServer(server) {
+      server.middlewares.use("/asset-manifest.json", (_req, res) => {
+        res.setHeader("Content-Type", "application/json");
+        res.end(build());
+      });
+    },
+    generateBundle() {
+      this.emitFile({ type: "asset", fileName: "asset-manifest.json", source: build() });
+    },
+  };
+}
+
 export default defineConfig({
   base: "/",
+  // The pose worker is a classic worker so MediaPipe can use importScripts (src/lib/poseWorker.ts)
+  worker: { format: "iife" },
   plugins: [
     react(),
+    assetManifest(),
 
     // Copy MediaPipe WASM files so they are served at /wasm
     viteStaticCopy({
@@ -34,7 +70,8 @@ export default defineConfig({
         ],
       },
       workbox: {
-        // ✅ Allow large WASM files without precaching them
+        // ✅ Allow large WASM files without precaching them; the WASM runtime and models
+        // are cached and verified by the app's asset manager instead
         globPatterns: ["**/*.{js,css,html,ico,png,svg,webmanifest}"],
         maximumFileSizeToCacheInBytes: 15 * 1024 * 1024,
       },